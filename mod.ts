@@ -63,26 +63,38 @@ export type {
   FeatureDefinition,
   FeatureDefinitionInput,
   FeatureId,
+  FeatureKey,
   FeatureMetadata,
+  FeatureNameOf,
   FeatureRegistry,
+  FeatureRegistryUpdate,
   FeatureSchema,
   FeatureState,
+  FeatureStateChange,
   FeatureStateReason,
   ResolvedConfig,
+  TypedFeatureId,
 } from "./src/types.ts";
 
 export {
+  CfgParseError,
   ConfigLoadError,
+  ConfigParseError,
+  FeatureConflictError,
+  FeatureDependentsError,
   FeatureFlagError,
   featureId,
   FeatureIdFormatError,
   FeatureNotEnabledError,
   FeatureNotFoundError,
+  FeatureRequirementError,
   FeatureSchemaError,
+  FeatureUnavailableError,
   getDepFeature,
   getDepPackage,
   isDepFeatureRef,
   isValidFeatureId,
+  ProfileCycleError,
   unsafeFeatureId,
 } from "./src/types.ts";
 
@@ -91,10 +103,20 @@ export {
 // =============================================================================
 
 export type {
+  ConfigFileType,
+  DiagnosticRule,
+  DiagnosticSeverity,
+  ExclusiveGroup,
+  ExclusiveMode,
   ExternalReference,
   FeatureManifest,
   FeatureManifestMetadata,
+  FeatureProfile,
   FeatureTreeNode,
+  FtFlagsSettings,
+  LintLevel,
+  LintRules,
+  ManifestDiagnostic,
   ManifestSource,
   ManifestValidation,
   PackageDependencies,
@@ -105,22 +127,35 @@ export type {
 } from "./src/manifest.ts";
 
 export {
+  buildEnablerTree,
   buildFeatureTree,
   createEmptyManifest,
+  createRegistryFromManifest,
   createSimpleManifest,
+  DEFAULT_LINT_LEVELS,
   detectCycles,
+  DIAGNOSTIC_CODES,
+  effectiveResolveOptions,
+  expandProfile,
   extractExternalReferences,
   getEnableChain,
+  getEnablePaths,
   isFeatureEnabled,
+  isImplicitFeature,
   isValidFeatureReference,
   isValidPackageName,
+  listActivatedDependencies,
   listAvailableFeatures,
   listDisabledFeatures as listManifestDisabledFeatures,
   listEnabledFeatures as listManifestEnabledFeatures,
   loadManifest,
   loadManifestFromDenoJson,
+  loadManifestFromDirectory,
+  loadManifestFromFeaturesJson,
+  loadManifestFromFtFlagsToml,
   loadManifestFromPackageJson,
   parseManifest,
+  parseManifestText,
   renderFeatureTree,
   resolveFeatures,
   toFeatureIdSet,
@@ -128,6 +163,63 @@ export {
   validateManifest,
 } from "./src/manifest.ts";
 
+// =============================================================================
+// Workspace (discovery and cross-package resolution)
+// =============================================================================
+
+export type {
+  UnresolvedReference,
+  WorkspaceResolution,
+  WorkspaceResolveOptions,
+} from "./src/workspace.ts";
+
+export {
+  discoverWorkspaceMembers,
+  loadDependencyManifests,
+  loadWorkspaceManifests,
+  resolveWorkspaceFeatures,
+} from "./src/workspace.ts";
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+export type { EnabledByChange, FeatureSetDiff } from "./src/diff.ts";
+
+export { diffResolvedFeatures, isEmptyDiff, loadManifestAtRevision } from "./src/diff.ts";
+
+// =============================================================================
+// Feature Matrix
+// =============================================================================
+
+export type {
+  CombinationRun,
+  FeatureCombination,
+  MatrixMode,
+  MatrixOptions,
+  RunOptions,
+  RunStatus,
+} from "./src/matrix.ts";
+
+export {
+  combinationEnv,
+  DEFAULT_MATRIX_LIMIT,
+  featureCombination,
+  featureMatrix,
+  formatCombination,
+  runCombinations,
+} from "./src/matrix.ts";
+
+// =============================================================================
+// Source Locations and JSON(C)/TOML Parsing
+// =============================================================================
+
+export type { ParseJsonOptions, SourceLocation } from "./src/source.ts";
+
+export { formatLocation, indexJsonLocations, jsonPointer, parseJson } from "./src/source.ts";
+
+export { parseToml } from "./src/toml.ts";
+
 // =============================================================================
 // Schema
 // =============================================================================
@@ -166,7 +258,7 @@ export {
   setFeatureState,
 } from "./src/registry.ts";
 
-export type { CreateRegistryOptions } from "./src/registry.ts";
+export type { CreateRegistryOptions, DisableFeatureOptions } from "./src/registry.ts";
 
 // =============================================================================
 // Evaluation
@@ -186,6 +278,71 @@ export {
   whenEnabled,
 } from "./src/evaluate.ts";
 
+// =============================================================================
+// cfg Expressions
+// =============================================================================
+
+export type {
+  CfgContext,
+  CfgEvaluateOptions,
+  CfgEvaluation,
+  CfgExpr,
+  CfgFeatureExpr,
+  CfgListExpr,
+  CfgNotExpr,
+  CfgSpan,
+  CfgTargetExpr,
+} from "./src/cfg.ts";
+
+export {
+  cfgFeatures,
+  cfgTargets,
+  evaluateCfg,
+  explainCfg,
+  formatCfg,
+  parseCfg,
+} from "./src/cfg.ts";
+
+// =============================================================================
+// Code Generation
+// =============================================================================
+
+export { DEFAULT_CODEGEN_IMPORT, generateFeatureModule } from "./src/codegen.ts";
+
+export type { CodegenOptions } from "./src/codegen.ts";
+
+// =============================================================================
+// CLI Output Documents
+// =============================================================================
+
+export type {
+  CheckDocument,
+  CodegenDocument,
+  CodegenStatus,
+  CombinationEntry,
+  DiffDocument,
+  DiffSideEntry,
+  EnabledFeatureEntry,
+  EvalDocument,
+  EvaluationEntry,
+  FeatureEntry,
+  HackDocument,
+  HackRunEntry,
+  ListDocument,
+  MatrixDocument,
+  OutputDocument,
+  OutputFormat,
+  ResolveDocument,
+  SelectionEntry,
+  TreeDocument,
+  ValidateDocument,
+  WhyDocument,
+  WorkspaceDocument,
+  WorkspacePackageEntry,
+} from "./src/output.ts";
+
+export { OUTPUT_FORMAT_VERSION } from "./src/output.ts";
+
 // =============================================================================
 // Configuration
 // =============================================================================
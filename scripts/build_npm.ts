@@ -106,6 +106,7 @@ await build({
     // Copy additional files
     Deno.copyFileSync("LICENSE", `${outDir}/LICENSE`);
     Deno.copyFileSync("schema.json", `${outDir}/schema.json`);
+    Deno.copyFileSync("output.schema.json", `${outDir}/output.schema.json`);
 
     // Generate Node.js-specific README from template
     console.log("Generating Node.js-specific README...");
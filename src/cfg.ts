@@ -0,0 +1,425 @@
+/**
+ * @module cfg
+ * Parser and evaluator for cfg-style feature predicates.
+ *
+ * Grammar (whitespace is ignored between tokens):
+ *
+ *   expr    := feature | target | all | any | not
+ *   feature := "feature" "(" string ")"
+ *   target  := "target" "(" string ")"
+ *   all     := "all" "(" [expr ("," expr)* [","]] ")"
+ *   any     := "any" "(" [expr ("," expr)* [","]] ")"
+ *   not     := "not" "(" expr ")"
+ *   string  := '"' chars '"' | "'" chars "'"
+ *
+ * As in Rust's `cfg`, `all()` with no arguments is true and `any()` with no
+ * arguments is false. `target("node")` is true when evaluating for that target
+ * (see `ResolveOptions.target`) and false when no target is given.
+ *
+ * @example
+ * ```ts
+ * const expr = parseCfg('all(feature("std"), not(feature("legacy")))');
+ * evaluateCfg(expr, resolveFeatures(manifest)); // true or false
+ * ```
+ */
+
+import type { ResolvedFeatures } from "./manifest.ts";
+import { CfgParseError, type FeatureId, type FeatureRegistry } from "./types.ts";
+
+// =============================================================================
+// AST Types
+// =============================================================================
+
+/**
+ * Source position of a node, as offsets into the parsed string.
+ */
+export interface CfgSpan {
+  /** Offset of the first character (0-based) */
+  readonly start: number;
+  /** Offset just past the last character */
+  readonly end: number;
+}
+
+/**
+ * A `feature("name")` predicate.
+ */
+export interface CfgFeatureExpr {
+  readonly kind: "feature";
+  readonly name: string;
+  readonly span: CfgSpan;
+}
+
+/**
+ * A `target("name")` predicate.
+ */
+export interface CfgTargetExpr {
+  readonly kind: "target";
+  readonly name: string;
+  readonly span: CfgSpan;
+}
+
+/**
+ * An `all(...)` or `any(...)` combinator.
+ */
+export interface CfgListExpr {
+  readonly kind: "all" | "any";
+  readonly args: readonly CfgExpr[];
+  readonly span: CfgSpan;
+}
+
+/**
+ * A `not(...)` combinator.
+ */
+export interface CfgNotExpr {
+  readonly kind: "not";
+  readonly arg: CfgExpr;
+  readonly span: CfgSpan;
+}
+
+/**
+ * A parsed cfg expression.
+ */
+export type CfgExpr = CfgFeatureExpr | CfgTargetExpr | CfgListExpr | CfgNotExpr;
+
+/**
+ * The value of an expression node together with the values of its sub-terms.
+ */
+export interface CfgEvaluation {
+  readonly expr: CfgExpr;
+  readonly value: boolean;
+  readonly children: readonly CfgEvaluation[];
+}
+
+/**
+ * Anything a cfg expression can be evaluated against: a registry, a resolved
+ * manifest, or a predicate deciding whether a feature is enabled.
+ */
+export type CfgContext = FeatureRegistry | ResolvedFeatures | ((feature: string) => boolean);
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Recursive-descent parser over a single expression string.
+ */
+class CfgParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): CfgExpr {
+    const expr = this.parseExpr();
+    this.skipWhitespace();
+    if (this.pos < this.input.length) {
+      this.fail(`Unexpected "${this.input[this.pos]}"`);
+    }
+    return expr;
+  }
+
+  private parseExpr(): CfgExpr {
+    this.skipWhitespace();
+    const start = this.pos;
+    const name = this.readIdentifier();
+
+    switch (name) {
+      case "feature":
+      case "target": {
+        this.expect("(");
+        this.skipWhitespace();
+        const value = this.readString(name);
+        this.skipWhitespace();
+        this.expect(")");
+        return { kind: name, name: value, span: { start, end: this.pos } };
+      }
+
+      case "all":
+      case "any": {
+        this.expect("(");
+        const args = this.parseArgs();
+        return { kind: name, args, span: { start, end: this.pos } };
+      }
+
+      case "not": {
+        this.expect("(");
+        const args = this.parseArgs();
+        if (args.length !== 1) {
+          this.fail(`not() takes exactly one argument, got ${args.length}`, start);
+        }
+        return { kind: "not", arg: args[0], span: { start, end: this.pos } };
+      }
+
+      default:
+        return this.fail(
+          `Unknown predicate "${name}" (expected feature, target, all, any or not)`,
+          start,
+        );
+    }
+  }
+
+  /**
+   * Parses a comma-separated argument list after "(", consuming the ")".
+   */
+  private parseArgs(): CfgExpr[] {
+    const args: CfgExpr[] = [];
+
+    this.skipWhitespace();
+    while (this.peek() !== ")") {
+      args.push(this.parseExpr());
+      this.skipWhitespace();
+
+      if (this.peek() === ",") {
+        this.pos++;
+        this.skipWhitespace();
+      } else if (this.peek() !== ")") {
+        this.fail(this.atEnd() ? "Unterminated argument list" : 'Expected "," or ")"');
+      }
+    }
+
+    this.pos++;
+    return args;
+  }
+
+  private readIdentifier(): string {
+    const match = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(this.input.slice(this.pos));
+    if (!match) {
+      this.fail(this.atEnd() ? "Unexpected end of expression" : "Expected a predicate");
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private readString(what: string): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") {
+      this.fail(`Expected a quoted ${what} name`);
+    }
+
+    const start = this.pos;
+    const end = this.input.indexOf(quote, start + 1);
+    if (end === -1) {
+      this.fail("Unterminated string", start);
+    }
+
+    this.pos = end + 1;
+    return this.input.slice(start + 1, end);
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.peek() !== char) {
+      this.fail(`Expected "${char}"`);
+    }
+    this.pos++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos];
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  private fail(message: string, position: number = this.pos): never {
+    throw new CfgParseError(message, this.input, position);
+  }
+}
+
+/**
+ * Parses a cfg expression such as `all(feature("std"), not(feature("legacy")))`.
+ *
+ * @param input - The expression to parse
+ * @returns The parsed expression tree, with source spans
+ * @throws CfgParseError if the expression is malformed
+ */
+export function parseCfg(input: string): CfgExpr {
+  return new CfgParser(input).parse();
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Options for evaluating a cfg expression.
+ */
+export interface CfgEvaluateOptions {
+  /**
+   * Target that `target(...)` is checked against. Defaults to the target the
+   * features were resolved for, when the context is a `ResolvedFeatures`.
+   */
+  readonly target?: string;
+}
+
+/**
+ * Gets the target to evaluate `target(...)` against.
+ */
+function targetOf(context: CfgContext, options: CfgEvaluateOptions): string | undefined {
+  if (options.target !== undefined) {
+    return options.target;
+  }
+  return typeof context !== "function" && "enabledBy" in context ? context.target : undefined;
+}
+
+/**
+ * Turns an evaluation context into a feature predicate.
+ */
+function toPredicate(context: CfgContext): (feature: string) => boolean {
+  if (typeof context === "function") {
+    return context;
+  }
+  if ("enabledBy" in context) {
+    return (feature) => context.enabled.has(feature);
+  }
+  return (feature) => context.states.get(feature as FeatureId)?.enabled ?? false;
+}
+
+/**
+ * Evaluates a cfg expression.
+ *
+ * @param expr - A parsed expression, or a string to parse first
+ * @param context - Registry, resolved features, or predicate to check features against
+ * @param options - Evaluation options
+ * @returns The value of the expression
+ * @throws CfgParseError if `expr` is a string that cannot be parsed
+ */
+export function evaluateCfg(
+  expr: CfgExpr | string,
+  context: CfgContext,
+  options: CfgEvaluateOptions = {},
+): boolean {
+  const node = typeof expr === "string" ? parseCfg(expr) : expr;
+  const isEnabled = toPredicate(context);
+  const target = targetOf(context, options);
+
+  const evaluate = (e: CfgExpr): boolean => {
+    switch (e.kind) {
+      case "feature":
+        return isEnabled(e.name);
+      case "target":
+        return e.name === target;
+      case "all":
+        return e.args.every(evaluate);
+      case "any":
+        return e.args.some(evaluate);
+      case "not":
+        return !evaluate(e.arg);
+    }
+  };
+
+  return evaluate(node);
+}
+
+/**
+ * Evaluates a cfg expression and records the value of every sub-term.
+ * Unlike `evaluateCfg`, this does not short-circuit, so every node is reported.
+ *
+ * @param expr - A parsed expression, or a string to parse first
+ * @param context - Registry, resolved features, or predicate to check features against
+ * @param options - Evaluation options
+ * @returns The evaluation tree, rooted at `expr`
+ * @throws CfgParseError if `expr` is a string that cannot be parsed
+ */
+export function explainCfg(
+  expr: CfgExpr | string,
+  context: CfgContext,
+  options: CfgEvaluateOptions = {},
+): CfgEvaluation {
+  const node = typeof expr === "string" ? parseCfg(expr) : expr;
+  const isEnabled = toPredicate(context);
+  const target = targetOf(context, options);
+
+  const explain = (e: CfgExpr): CfgEvaluation => {
+    switch (e.kind) {
+      case "feature":
+        return { expr: e, value: isEnabled(e.name), children: [] };
+      case "target":
+        return { expr: e, value: e.name === target, children: [] };
+      case "all":
+      case "any": {
+        const children = e.args.map(explain);
+        const value = e.kind === "all"
+          ? children.every((c) => c.value)
+          : children.some((c) => c.value);
+        return { expr: e, value, children };
+      }
+      case "not": {
+        const child = explain(e.arg);
+        return { expr: e, value: !child.value, children: [child] };
+      }
+    }
+  };
+
+  return explain(node);
+}
+
+/**
+ * Collects the feature names referenced by an expression, in order of appearance.
+ *
+ * @param expr - The expression to inspect
+ * @returns Unique feature names
+ */
+export function cfgFeatures(expr: CfgExpr): string[] {
+  return collectNames(expr, "feature");
+}
+
+/**
+ * Collects the target names referenced by an expression, in order of appearance.
+ *
+ * @param expr - The expression to inspect
+ * @returns Unique target names
+ */
+export function cfgTargets(expr: CfgExpr): string[] {
+  return collectNames(expr, "target");
+}
+
+function collectNames(expr: CfgExpr, kind: "feature" | "target"): string[] {
+  const names: string[] = [];
+
+  const visit = (e: CfgExpr): void => {
+    switch (e.kind) {
+      case "feature":
+      case "target":
+        if (e.kind === kind && !names.includes(e.name)) {
+          names.push(e.name);
+        }
+        break;
+      case "all":
+      case "any":
+        e.args.forEach(visit);
+        break;
+      case "not":
+        visit(e.arg);
+        break;
+    }
+  };
+
+  visit(expr);
+  return names;
+}
+
+/**
+ * Formats an expression back into its canonical string form.
+ *
+ * @param expr - The expression to format
+ * @returns e.g. `all(feature("std"), not(feature("legacy")))`
+ */
+export function formatCfg(expr: CfgExpr): string {
+  switch (expr.kind) {
+    case "feature":
+    case "target":
+      return `${expr.kind}("${expr.name}")`;
+    case "all":
+    case "any":
+      return `${expr.kind}(${expr.args.map(formatCfg).join(", ")})`;
+    case "not":
+      return `not(${formatCfg(expr.arg)})`;
+  }
+}
@@ -5,27 +5,85 @@
  * Usage:
  *   ft-flags list [--enabled] [--available]
  *   ft-flags check <feature> [--features <f1,f2>] [--no-default-features]
- *   ft-flags resolve [--features <f1,f2>] [--no-default-features] [--all-features]
+ *   ft-flags resolve [--features <f1,f2>] [--no-default-features] [--all-features] [--target <t>]
+ *                    [--profile <name>]
  *   ft-flags tree [<feature>]
  *   ft-flags validate
+ *   ft-flags eval <expr> [--explain] [--features <f1,f2>] [--no-default-features]
+ *   ft-flags hack [--combinations <a,b;c>] [--keep-going] -- <command...>
+ *   ft-flags codegen [--output <file>] [--check] [--import <specifier>]
+ *
+ * Every command accepts `--format json|ndjson` for machine-readable output.
+ * `list`, `resolve` and `validate` accept `--workspace` to run for every
+ * member of the workspace rooted at `--package` (or the current directory).
  */
 
 import {
+  type CfgEvaluation,
+  type CfgExpr,
+  cfgFeatures,
+  explainCfg,
+  formatCfg,
+  parseCfg,
+} from "./cfg.ts";
+
+import {
+  buildEnablerTree,
   buildFeatureTree,
+  effectiveResolveOptions,
   type FeatureManifest,
   getEnableChain,
+  getEnablePaths,
   isFeatureEnabled,
+  isImplicitFeature,
+  listActivatedDependencies,
   listAvailableFeatures,
   listDisabledFeatures,
   listEnabledFeatures,
-  loadManifest,
-  loadManifestFromDenoJson,
-  loadManifestFromPackageJson,
+  loadManifestFromDirectory,
+  type ManifestDiagnostic,
   renderFeatureTree,
+  type ResolvedFeatures,
   resolveFeatures,
   type ResolveOptions,
   validateManifest,
 } from "./manifest.ts";
+import { DEFAULT_CODEGEN_IMPORT, generateFeatureModule } from "./codegen.ts";
+import { diffResolvedFeatures, isEmptyDiff, loadManifestAtRevision } from "./diff.ts";
+import {
+  type CombinationRun,
+  type FeatureCombination,
+  featureCombination,
+  featureMatrix,
+  formatCombination,
+  type MatrixMode,
+  type MatrixOptions,
+  runCombinations,
+} from "./matrix.ts";
+import {
+  checkDocument,
+  codegenDocument,
+  type CodegenStatus,
+  diffDocument,
+  evalDocument,
+  formatDocument,
+  hackDocument,
+  isOutputFormat,
+  listDocument,
+  matrixDocument,
+  type OutputDocument,
+  type OutputFormat,
+  resolveDocument,
+  treeDocument,
+  validateDocument,
+  whyDocument,
+  type WorkspaceDocument,
+  workspaceDocument,
+  type WorkspacePackageEntry,
+} from "./output.ts";
+import { formatLocation } from "./source.ts";
+import { FeatureFlagError } from "./types.ts";
+import { loadWorkspaceManifests } from "./workspace.ts";
 
 // =============================================================================
 // CLI Argument Parsing
@@ -35,6 +93,8 @@ interface ParsedArgs {
   command: string;
   positional: string[];
   flags: Record<string, string | boolean>;
+  /** Arguments after `--`, passed through untouched */
+  rest: string[];
 }
 
 interface FlagParseResult {
@@ -43,6 +103,39 @@ interface FlagParseResult {
   consumedNext: boolean;
 }
 
+/**
+ * Flags that never take a value, so they don't swallow a following positional.
+ */
+const BOOLEAN_FLAGS = new Set([
+  "no-default-features",
+  "all-features",
+  "enabled",
+  "available",
+  "explain",
+  "include-default",
+  "keep-going",
+  "workspace",
+  "check",
+  "help",
+  "h",
+]);
+
+/**
+ * Flags whose value may itself start with "-" (e.g. `--from "--all-features"`).
+ */
+const VALUE_FLAGS = new Set(["from", "to"]);
+
+/**
+ * Flags that make up a feature selection.
+ */
+const SELECTION_FLAGS = new Set([
+  "features",
+  "no-default-features",
+  "all-features",
+  "target",
+  "profile",
+]);
+
 /**
  * Parses a single flag argument (--flag, --flag=value, -f, or -f value).
  * Returns the parsed key/value and whether the next argument was consumed.
@@ -65,7 +158,8 @@ function parseFlag(arg: string, nextArg: string | undefined): FlagParseResult {
 
   // --flag or -f, possibly followed by a value
   const key = arg.slice(prefix);
-  const hasValue = nextArg !== undefined && !nextArg.startsWith("-");
+  const hasValue = nextArg !== undefined &&
+    (VALUE_FLAGS.has(key) || (!BOOLEAN_FLAGS.has(key) && !nextArg.startsWith("-")));
 
   return {
     key,
@@ -86,6 +180,7 @@ function parseArgs(args: string[]): ParsedArgs {
     command: "",
     positional: [],
     flags: {},
+    rest: [],
   };
 
   let i = 0;
@@ -110,6 +205,11 @@ function parseArgs(args: string[]): ParsedArgs {
   while (i < args.length) {
     const arg = args[i];
 
+    if (arg === "--") {
+      result.rest = args.slice(i + 1);
+      break;
+    }
+
     if (isFlag(arg)) {
       const parsed = parseFlag(arg, args[i + 1]);
       result.flags[parsed.key] = parsed.value;
@@ -142,7 +242,48 @@ function getResolveOptions(flags: Record<string, string | boolean>): ResolveOpti
     allFeatures = true;
   }
 
-  return { features, noDefaultFeatures, allFeatures };
+  const target = typeof flags.target === "string" ? flags.target : undefined;
+  const profile = typeof flags.profile === "string" ? flags.profile : undefined;
+
+  return { features, noDefaultFeatures, allFeatures, target, profile };
+}
+
+/**
+ * Parses a feature selection given as one string, e.g. `--from "--features std"`.
+ * Returns null if the string contains anything other than selection flags.
+ */
+function parseSelection(spec: string): ResolveOptions | null {
+  const tokens = spec.split(/\s+/).filter(Boolean);
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isFlag(tokens[i])) {
+      return null;
+    }
+    const parsed = parseFlag(tokens[i], tokens[i + 1]);
+    if (!SELECTION_FLAGS.has(parsed.key)) {
+      return null;
+    }
+    flags[parsed.key] = parsed.value;
+    if (parsed.consumedNext) i++;
+  }
+
+  return getResolveOptions(flags);
+}
+
+/**
+ * Describes a feature selection as the flags that produce it.
+ */
+function formatSelection(options: ResolveOptions): string {
+  const parts: string[] = [];
+  if (options.profile !== undefined) parts.push(`--profile ${options.profile}`);
+  if (options.allFeatures) parts.push("--all-features");
+  if (options.noDefaultFeatures) parts.push("--no-default-features");
+  if (options.features && options.features.length > 0) {
+    parts.push(`--features ${options.features.join(",")}`);
+  }
+  if (options.target !== undefined) parts.push(`--target ${options.target}`);
+  return parts.length > 0 ? parts.join(" ") : "(default features)";
 }
 
 // =============================================================================
@@ -180,6 +321,13 @@ function warning(text: string): string {
   return colorize("[!]", "yellow") + " " + text;
 }
 
+/**
+ * Prints a machine-readable output document.
+ */
+function printDocument(document: OutputDocument, format: Exclude<OutputFormat, "text">): void {
+  console.log(formatDocument(document, format));
+}
+
 // =============================================================================
 // Commands
 // =============================================================================
@@ -187,10 +335,17 @@ function warning(text: string): string {
 function cmdList(
   manifest: FeatureManifest,
   flags: Record<string, string | boolean>,
+  format: OutputFormat,
 ): number {
   const showEnabled = flags.enabled === true;
   const showAvailable = flags.available === true || !showEnabled;
 
+  if (format !== "text") {
+    const resolved = showEnabled ? resolveFeatures(manifest, getResolveOptions(flags)) : undefined;
+    printDocument(listDocument(manifest, resolved), format);
+    return 0;
+  }
+
   if (showAvailable && !showEnabled) {
     console.log(colorize("Available features:", "bold"));
     console.log();
@@ -202,6 +357,9 @@ function cmdList(
       const meta = manifest.metadata.get(name);
 
       let line = `  ${colorize(name, "blue")} ${colorize(depsStr, "dim")}`;
+      if (isImplicitFeature(manifest, name)) {
+        line += ` ${colorize("(implicit)", "dim")}`;
+      }
       if (meta?.deprecated) {
         line += ` ${colorize("(deprecated)", "yellow")}`;
       }
@@ -250,12 +408,18 @@ function cmdCheck(
   manifest: FeatureManifest,
   featureName: string,
   flags: Record<string, string | boolean>,
+  format: OutputFormat,
 ): number {
   const options = getResolveOptions(flags);
   const resolved = resolveFeatures(manifest, options);
 
   const enabled = isFeatureEnabled(featureName, resolved);
 
+  if (format !== "text") {
+    printDocument(checkDocument(featureName, resolved), format);
+    return enabled ? 0 : 1;
+  }
+
   if (enabled) {
     const chain = getEnableChain(featureName, resolved);
     const chainStr = chain && chain.length > 1 ? `(via: ${chain.join(" -> ")})` : "(explicit)";
@@ -273,13 +437,327 @@ function cmdCheck(
   }
 }
 
+async function cmdDiff(
+  manifest: FeatureManifest,
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+): Promise<number> {
+  // Each side: a selection (default: the global flags) and a manifest revision
+  const sides: { side: string; options: ResolveOptions; revision?: string }[] = [];
+  for (const side of ["from", "to"]) {
+    const spec = flags[side];
+    const options = typeof spec === "string" ? parseSelection(spec) : getResolveOptions(flags);
+    if (!options) {
+      console.error(failure(`Invalid selection for --${side}: ${spec}`));
+      console.error('Expected selection flags, e.g. --from "--no-default-features --features std"');
+      return 1;
+    }
+    const revision = flags[`${side}-rev`];
+    sides.push({ side, options, revision: typeof revision === "string" ? revision : undefined });
+  }
+
+  let loaded: { resolved: ResolvedFeatures; revision?: string }[];
+  try {
+    loaded = await Promise.all(sides.map(async ({ side, options, revision }) => {
+      const sideManifest = revision && manifest.source
+        ? await loadManifestAtRevision(manifest.source, revision)
+        : manifest;
+      if (!sideManifest) {
+        throw new Error(`No feature configuration found at ${revision} (--${side}-rev)`);
+      }
+      return { resolved: resolveFeatures(sideManifest, options), revision };
+    }));
+  } catch (e) {
+    console.error(failure(e instanceof Error ? e.message : String(e)));
+    return 1;
+  }
+
+  const [from, to] = loaded;
+  const diff = diffResolvedFeatures(from.resolved, to.resolved);
+
+  if (format !== "text") {
+    printDocument(diffDocument(from, to, diff), format);
+    return 0;
+  }
+
+  const describe = (side: typeof from): string =>
+    side.revision
+      ? `${formatSelection(side.resolved.options)} at ${side.revision}`
+      : formatSelection(side.resolved.options);
+
+  console.log(`${colorize("From:", "bold")} ${describe(from)}`);
+  console.log(`${colorize("To:", "bold")}   ${describe(to)}`);
+  console.log();
+
+  if (isEmptyDiff(diff)) {
+    console.log(success("No differences"));
+    return 0;
+  }
+
+  if (diff.added.length > 0) {
+    console.log(colorize("Added:", "bold"));
+    for (const name of diff.added) {
+      const enabledBy = to.resolved.enabledBy.get(name) ?? [];
+      console.log(
+        `  ${colorize("+", "green")} ${name} ${colorize(`(${enabledBy.join(", ")})`, "dim")}`,
+      );
+    }
+  }
+
+  if (diff.removed.length > 0) {
+    console.log(colorize("Removed:", "bold"));
+    for (const name of diff.removed) {
+      console.log(`  ${colorize("-", "red")} ${name}`);
+    }
+  }
+
+  if (diff.changed.length > 0) {
+    console.log(colorize("Changed:", "bold"));
+    for (const change of diff.changed) {
+      const before = change.before.join(", ");
+      const after = change.after.join(", ");
+      console.log(
+        `  ${colorize("~", "yellow")} ${change.feature} ${
+          colorize(`(${before} -> ${after})`, "dim")
+        }`,
+      );
+    }
+  }
+
+  if (diff.addedDependencies.length > 0 || diff.removedDependencies.length > 0) {
+    console.log(colorize("Activated dependencies:", "bold"));
+    for (const dep of diff.addedDependencies) {
+      console.log(`  ${colorize("+", "green")} ${dep}`);
+    }
+    for (const dep of diff.removedDependencies) {
+      console.log(`  ${colorize("-", "red")} ${dep}`);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Splits a comma-separated flag value into trimmed, non-empty entries.
+ */
+function splitList(value: string | boolean | undefined): string[] {
+  return typeof value === "string" ? value.split(",").map((s) => s.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Reads matrix options from flags, printing an error and returning null if
+ * they are invalid.
+ */
+function getMatrixOptions(
+  flags: Record<string, string | boolean>,
+  defaultMode: MatrixMode,
+): MatrixOptions | null {
+  const mode = flags.mode ?? defaultMode;
+  if (mode !== "powerset" && mode !== "each-feature") {
+    console.error(failure(`Unknown matrix mode: ${mode} (expected powerset or each-feature)`));
+    return null;
+  }
+
+  let depth: number | undefined;
+  if (flags.depth !== undefined) {
+    depth = Number(flags.depth);
+    if (!Number.isInteger(depth) || depth < 0) {
+      console.error(failure(`Invalid depth: ${flags.depth} (expected a non-negative integer)`));
+      return null;
+    }
+  }
+
+  return {
+    mode,
+    depth,
+    exclude: splitList(flags.exclude),
+    // Groups are separated by ";", features within a group by ","
+    groups: typeof flags.groups === "string"
+      ? flags.groups.split(";").map(splitList).filter((g) => g.length > 0)
+      : [],
+    includeDefault: flags["include-default"] === true,
+  };
+}
+
+function cmdMatrix(
+  manifest: FeatureManifest,
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+): number {
+  const options = getMatrixOptions(flags, "powerset");
+  if (!options) {
+    return 1;
+  }
+
+  let combinations: FeatureCombination[];
+  try {
+    combinations = featureMatrix(manifest, options);
+  } catch (e) {
+    console.error(failure(e instanceof Error ? e.message : String(e)));
+    return 1;
+  }
+
+  if (format !== "text") {
+    printDocument(matrixDocument(options, combinations), format);
+    return 0;
+  }
+
+  const count = combinations.length === 1 ? "1 combination" : `${combinations.length} combinations`;
+  console.log(colorize(`Feature matrix (${count}):`, "bold"));
+  console.log();
+
+  const width = String(combinations.length).length;
+  combinations.forEach((combination, i) => {
+    const index = String(i + 1).padStart(width);
+    const flagsStr = formatCombination(combination) || "(default features)";
+    const enabled = colorize(`[${combination.enabled.join(", ")}]`, "dim");
+    console.log(`  ${index}. ${flagsStr} ${enabled}`);
+  });
+
+  return 0;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+async function cmdHack(
+  manifest: FeatureManifest,
+  command: string[],
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+): Promise<number> {
+  if (command.length === 0) {
+    console.error(failure("Missing command to run"));
+    console.error("Usage: ft-flags hack [options] -- <command...>");
+    return 1;
+  }
+
+  let combinations: FeatureCombination[];
+  try {
+    if (typeof flags.combinations === "string") {
+      // Combinations are separated by ";", features within one by ","
+      const includeDefault = flags["include-default"] === true;
+      combinations = flags.combinations.split(";").map((spec) =>
+        featureCombination(manifest, splitList(spec), includeDefault)
+      );
+    } else {
+      // Defaults to no features, default, then each feature alone
+      const options = getMatrixOptions(flags, "each-feature");
+      if (!options) {
+        return 1;
+      }
+      combinations = featureMatrix(manifest, options);
+    }
+  } catch (e) {
+    console.error(failure(e instanceof Error ? e.message : String(e)));
+    return 1;
+  }
+
+  const keepGoing = flags["keep-going"] === true;
+  const label = (combination: FeatureCombination): string =>
+    formatCombination(combination) || "(default features)";
+
+  // Keep stdout clean for the document in machine-readable formats
+  const log = format === "text" ? console.log : console.error;
+
+  let runs: CombinationRun[];
+  try {
+    runs = await runCombinations(command, combinations, {
+      keepGoing,
+      stdout: format === "text" ? "inherit" : "stderr",
+      onStart: (combination, index) => {
+        log(colorize(`==> [${index + 1}/${combinations.length}] ${label(combination)}`, "bold"));
+      },
+      onFinish: () => log(),
+    });
+  } catch (e) {
+    console.error(failure(e instanceof Error ? e.message : String(e)));
+    return 1;
+  }
+
+  const failed = runs.filter((r) => r.status === "failed").length;
+
+  if (format !== "text") {
+    printDocument(hackDocument(command, keepGoing, runs), format);
+    return failed > 0 ? 1 : 0;
+  }
+
+  console.log(colorize("Summary:", "bold"));
+  for (const run of runs) {
+    if (run.status === "skipped") {
+      console.log(
+        `  ${colorize("[-]", "dim")} ${label(run.combination)} ${colorize("(skipped)", "dim")}`,
+      );
+      continue;
+    }
+    const duration = formatDuration(run.durationMs ?? 0);
+    const line = run.status === "passed"
+      ? success(`${label(run.combination)} ${colorize(`(${duration})`, "dim")}`)
+      : failure(`${label(run.combination)} ${colorize(`(exit ${run.code}, ${duration})`, "dim")}`);
+    console.log(`  ${line}`);
+  }
+
+  const passed = runs.filter((r) => r.status === "passed").length;
+  const skipped = runs.filter((r) => r.status === "skipped").length;
+  console.log();
+  console.log(
+    `${passed} passed, ${failed} failed` + (skipped > 0 ? `, ${skipped} skipped` : ""),
+  );
+
+  return failed > 0 ? 1 : 0;
+}
+
+function cmdWhy(
+  manifest: FeatureManifest,
+  featureName: string,
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+): number {
+  const options = getResolveOptions(flags);
+  const resolved = resolveFeatures(manifest, options);
+
+  if (format !== "text") {
+    printDocument(whyDocument(featureName, resolved), format);
+    return resolved.enabled.has(featureName) ? 0 : 1;
+  }
+
+  const tree = buildEnablerTree(featureName, resolved);
+  if (!tree) {
+    if (!manifest.features.has(featureName)) {
+      console.log(failure(`${colorize(featureName, "bold")} is not defined in the manifest`));
+    } else {
+      console.log(failure(`${colorize(featureName, "bold")} is not enabled`));
+    }
+    return 1;
+  }
+
+  const paths = getEnablePaths(featureName, resolved) ?? [];
+  const count = paths.length === 1 ? "1 path" : `${paths.length} paths`;
+  console.log(success(`${colorize(featureName, "bold")} is enabled by ${count}`));
+  console.log();
+
+  console.log(tree.name);
+  if (tree.children.length > 0) {
+    console.log(renderFeatureTree(tree.children, ""));
+  }
+
+  return 0;
+}
+
 function cmdResolve(
   manifest: FeatureManifest,
   flags: Record<string, string | boolean>,
+  format: OutputFormat,
 ): number {
   const options = getResolveOptions(flags);
   const resolved = resolveFeatures(manifest, options);
 
+  if (format !== "text") {
+    printDocument(resolveDocument(resolved), format);
+    return 0;
+  }
+
   console.log(colorize("Resolved features:", "bold"));
   console.log();
 
@@ -290,12 +768,35 @@ function cmdResolve(
     console.log(`  ${enabled.join(", ")}`);
   }
 
+  const activated = listActivatedDependencies(resolved);
+  if (activated.length > 0) {
+    console.log();
+    console.log(colorize("Activated dependencies:", "bold"));
+    console.log();
+    for (const name of activated) {
+      const by = resolved.activatedDependencies.get(name) ?? [];
+      let line = `  ${name} ${colorize(`(by: ${by.join(", ")})`, "dim")}`;
+      if (resolved.undeclaredDependencies.includes(name)) {
+        line += ` ${colorize("(not in optionalDependencies)", "yellow")}`;
+      }
+      console.log(line);
+    }
+  }
+
+  // Show what the profile expanded to, not just the flags
+  const effective = effectiveResolveOptions(manifest, options);
   console.log();
   console.log(colorize("Resolution options:", "dim"));
-  console.log(`  --no-default-features: ${options.noDefaultFeatures ?? false}`);
-  console.log(`  --all-features: ${options.allFeatures ?? false}`);
-  if (options.features && options.features.length > 0) {
-    console.log(`  --features: ${options.features.join(", ")}`);
+  if (effective.profile !== undefined) {
+    console.log(`  --profile: ${effective.profile}`);
+  }
+  if (resolved.target !== undefined) {
+    console.log(`  --target: ${resolved.target}`);
+  }
+  console.log(`  --no-default-features: ${effective.noDefaultFeatures ?? false}`);
+  console.log(`  --all-features: ${effective.allFeatures ?? false}`);
+  if (effective.features && effective.features.length > 0) {
+    console.log(`  --features: ${effective.features.join(", ")}`);
   }
 
   return 0;
@@ -304,7 +805,14 @@ function cmdResolve(
 function cmdTree(
   manifest: FeatureManifest,
   rootFeature: string | undefined,
+  format: OutputFormat,
 ): number {
+  if (format !== "text") {
+    const document = treeDocument(manifest, rootFeature);
+    printDocument(document, format);
+    return rootFeature && document.nodes.length === 0 ? 1 : 0;
+  }
+
   const nodes = buildFeatureTree(manifest, rootFeature);
 
   if (nodes.length === 0) {
@@ -321,7 +829,7 @@ function cmdTree(
 
   // Render without the prefix for top-level
   for (const node of nodes) {
-    console.log(node.name);
+    console.log(node.isImplicit ? `${node.name} ${colorize("(implicit)", "dim")}` : node.name);
     if (node.children.length > 0) {
       console.log(renderFeatureTree(node.children, ""));
     }
@@ -330,34 +838,200 @@ function cmdTree(
   return 0;
 }
 
-function cmdValidate(manifest: FeatureManifest): number {
+/**
+ * Formats a diagnostic as `CODE message (path:line:column)`.
+ */
+function formatDiagnostic(diagnostic: ManifestDiagnostic): string {
+  const code = colorize(diagnostic.code, "bold");
+  const location = diagnostic.location
+    ? colorize(` (${formatLocation(diagnostic.location)})`, "dim")
+    : "";
+  return `${code} ${diagnostic.message}${location}`;
+}
+
+function cmdValidate(manifest: FeatureManifest, format: OutputFormat): number {
   // Pass dependencies from the manifest for external reference validation
   const result = validateManifest(manifest, {
     dependencies: manifest.dependencies,
   });
 
+  if (format !== "text") {
+    printDocument(validateDocument(result), format);
+    return result.valid ? 0 : 1;
+  }
+
   if (result.valid && result.warnings.length === 0) {
     console.log(success("Configuration is valid"));
     return 0;
   }
 
-  if (result.errors.length > 0) {
+  const errors = result.diagnostics.filter((d) => d.severity === "error");
+  if (errors.length > 0) {
     console.log(colorize("Errors:", "red"));
-    for (const error of result.errors) {
-      console.log(`  ${failure(error)}`);
+    for (const diagnostic of errors) {
+      console.log(`  ${failure(formatDiagnostic(diagnostic))}`);
     }
   }
 
-  if (result.warnings.length > 0) {
+  const warnings = result.diagnostics.filter((d) => d.severity === "warning");
+  if (warnings.length > 0) {
     console.log(colorize("Warnings:", "yellow"));
-    for (const warn of result.warnings) {
-      console.log(`  ${warning(warn)}`);
+    for (const diagnostic of warnings) {
+      console.log(`  ${warning(formatDiagnostic(diagnostic))}`);
     }
   }
 
   return result.valid ? 0 : 1;
 }
 
+/**
+ * Renders an evaluation tree, one sub-term per line.
+ */
+function renderEvaluation(
+  evaluation: CfgEvaluation,
+  manifest: FeatureManifest,
+  indent: string,
+): string[] {
+  const marker = evaluation.value ? colorize("[ok]", "green") : colorize("[x]", "red");
+  const expr = evaluation.expr;
+
+  let label: string;
+  if (expr.kind === "feature") {
+    label = formatCfg(expr);
+    if (!manifest.features.has(expr.name)) {
+      label += ` ${colorize("(not defined)", "yellow")}`;
+    }
+  } else if (expr.kind === "target") {
+    label = formatCfg(expr);
+  } else if (expr.kind === "not") {
+    label = "not";
+  } else {
+    label = expr.kind;
+  }
+
+  const lines = [`${indent}${marker} ${label}`];
+  for (const child of evaluation.children) {
+    lines.push(...renderEvaluation(child, manifest, indent + "    "));
+  }
+  return lines;
+}
+
+function cmdEval(
+  manifest: FeatureManifest,
+  input: string,
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+): number {
+  let expr: CfgExpr;
+  try {
+    expr = parseCfg(input);
+  } catch (e) {
+    console.error(failure(e instanceof Error ? e.message : String(e)));
+    return 1;
+  }
+
+  const options = getResolveOptions(flags);
+  const resolved = resolveFeatures(manifest, options);
+  const evaluation = explainCfg(expr, resolved);
+
+  if (format !== "text") {
+    printDocument(evalDocument(evaluation), format);
+    return evaluation.value ? 0 : 1;
+  }
+
+  if (flags.explain) {
+    for (const line of renderEvaluation(evaluation, manifest, "")) {
+      console.log(line);
+    }
+    console.log();
+  }
+
+  const formatted = colorize(formatCfg(expr), "bold");
+  if (evaluation.value) {
+    console.log(success(`${formatted} is true`));
+  } else {
+    console.log(failure(`${formatted} is false`));
+  }
+
+  for (const name of cfgFeatures(expr)) {
+    if (!manifest.features.has(name)) {
+      console.log(warning(`Feature "${name}" is not defined in the manifest`));
+    }
+  }
+
+  return evaluation.value ? 0 : 1;
+}
+
+/**
+ * Reads a previously generated file, or returns null if it does not exist.
+ */
+async function readGeneratedFile(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function cmdCodegen(
+  manifest: FeatureManifest,
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+): Promise<number> {
+  const output = typeof flags.output === "string" ? flags.output : undefined;
+  const check = flags.check === true;
+  if (check && !output) {
+    console.error(
+      failure("--check needs the generated file to compare, e.g. --output features.ts"),
+    );
+    return 1;
+  }
+
+  const importFrom = typeof flags.import === "string" ? flags.import : DEFAULT_CODEGEN_IMPORT;
+  const code = generateFeatureModule(manifest, { importFrom });
+
+  let status: CodegenStatus;
+  try {
+    if (check) {
+      status = await readGeneratedFile(output!) === code ? "up-to-date" : "stale";
+    } else if (output) {
+      await Deno.writeTextFile(output, code);
+      status = "written";
+    } else {
+      status = "printed";
+    }
+  } catch (e) {
+    console.error(failure(e instanceof Error ? e.message : String(e)));
+    return 1;
+  }
+
+  if (format !== "text") {
+    printDocument(codegenDocument(manifest, output ?? null, status, code), format);
+    return status === "stale" ? 1 : 0;
+  }
+
+  switch (status) {
+    case "printed":
+      console.log(code.trimEnd());
+      return 0;
+    case "written":
+      console.log(success(`Wrote ${manifest.features.size} features to ${output}`));
+      return 0;
+    case "up-to-date":
+      console.log(success(`${output} is up to date`));
+      return 0;
+    case "stale":
+      console.log(
+        failure(`${output} is out of date with ${manifest.source?.path ?? "the manifest"}`),
+      );
+      console.log(colorize(`Run 'ft codegen --output ${output}' to regenerate it.`, "dim"));
+      return 1;
+  }
+}
+
 function printHelp(): void {
   console.log(`
 ${colorize("ft", "bold")} - Feature flag CLI for TypeScript
@@ -368,37 +1042,202 @@ ${colorize("USAGE:", "bold")}
 ${colorize("COMMANDS:", "bold")}
     list                List available features
     check <feature>     Check if a feature is enabled
+    why <feature>       Show every path that enables a feature
+    diff                Compare two feature selections or manifest revisions
+    matrix              List distinct feature combinations (e.g. for a CI matrix)
+    hack -- <command>   Run a command once per feature combination
     resolve             Show resolved feature set
     tree [feature]      Display feature dependency tree
     validate            Validate the feature configuration
+    eval <expr>         Evaluate a cfg predicate (exit 0 if true, 1 if false)
+    codegen             Generate a TypeScript module with typed feature names
     help                Show this help message
 
 ${colorize("OPTIONS:", "bold")}
     --features <f1,f2>      Enable specific features (comma-separated)
     --no-default-features   Don't enable the 'default' feature
     --all-features          Enable all available features
+    --target <target>       Resolve for a target, e.g. node, deno, bun or browser
+    --profile <name>        Start from a profile in metadata.ftFlags.profiles
     --enabled               Show only enabled features (for 'list')
     --available             Show all available features (for 'list')
-    --package <path>        Path to package directory
+    --explain               Show the value of every sub-term (for 'eval')
+    --from, --to <flags>    Feature selections to compare (for 'diff')
+    --from-rev, --to-rev <rev>
+                            Git revisions of the manifest to compare (for 'diff')
+    --mode <mode>           Matrix mode: powerset or each-feature ('hack' default)
+    --depth <n>             Maximum features per combination (for 'matrix', 'hack')
+    --exclude <f1,f2>       Features not to select directly (for 'matrix', 'hack')
+    --groups <a,b;c,d>      Features always selected together (for 'matrix', 'hack')
+    --include-default       Resolve every combination with defaults (for 'matrix', 'hack')
+    --combinations <a,b;c>  Combinations to run instead of each feature alone (for 'hack')
+    --keep-going            Run every combination even after a failure (for 'hack')
+    --workspace             Run for every workspace member (for 'list', 'resolve', 'validate')
+    --output <file>         File to write the generated module to (for 'codegen')
+    --check                 Fail if the --output file is out of date (for 'codegen')
+    --import <specifier>    Module the generated code imports from (for 'codegen')
+    --format <format>       Output format: text (default), json or ndjson
+    --package <path>        Path to package directory (workspace root with --workspace)
 
 ${colorize("EXAMPLES:", "bold")}
     ft list
     ft list --enabled
     ft check async-runtime
     ft check experimental --features experimental
+    ft why fs
+    ft diff --from "--no-default-features --features std" --to "--all-features"
+    ft diff --from-rev main
+    ft matrix --depth 2 --exclude nightly --format json
+    ft hack -- deno test -A
+    ft hack --combinations "default;std,fs" --keep-going -- deno task test
     ft resolve --no-default-features --features full
+    ft resolve --target browser
+    ft resolve --profile ci --features experimental
     ft tree
     ft tree default
     ft validate
+    ft validate --workspace
+    ft eval 'all(feature("fs"), not(feature("experimental")))' --explain
+    ft resolve --format json
+    ft codegen --output src/features.gen.ts
+    ft codegen --output src/features.gen.ts --check
 
 ${colorize("ENVIRONMENT:", "bold")}
     FT_FEATURES               Comma-separated features to enable
     FT_NO_DEFAULT_FEATURES    Set to 'true' to disable defaults
     FT_ALL_FEATURES           Set to 'true' to enable all features
+    FT_TARGET                 Target to resolve for (like --target)
+    FT_PROFILE                Profile to resolve (like --profile)
     NO_COLOR                  Disable colored output
 `);
 }
 
+// =============================================================================
+// Workspaces
+// =============================================================================
+
+type WorkspaceCommand = WorkspaceDocument["subcommand"];
+
+function isWorkspaceCommand(command: string): command is WorkspaceCommand {
+  return command === "list" || command === "resolve" || command === "validate";
+}
+
+/**
+ * Builds the output document of a workspace command for one member.
+ */
+function memberDocument(
+  command: WorkspaceCommand,
+  manifest: FeatureManifest,
+  flags: Record<string, string | boolean>,
+): NonNullable<WorkspacePackageEntry["document"]> {
+  switch (command) {
+    case "list":
+      return listDocument(
+        manifest,
+        flags.enabled === true ? resolveFeatures(manifest, getResolveOptions(flags)) : undefined,
+      );
+    case "resolve":
+      return resolveDocument(resolveFeatures(manifest, getResolveOptions(flags)));
+    case "validate":
+      return validateDocument(validateManifest(manifest, { dependencies: manifest.dependencies }));
+  }
+}
+
+/**
+ * Runs a workspace command for one member with text output.
+ */
+function runMemberCommand(
+  command: WorkspaceCommand,
+  manifest: FeatureManifest,
+  flags: Record<string, string | boolean>,
+): number {
+  switch (command) {
+    case "list":
+      return cmdList(manifest, flags, "text");
+    case "resolve":
+      return cmdResolve(manifest, flags, "text");
+    case "validate":
+      return cmdValidate(manifest, "text");
+  }
+}
+
+/**
+ * Runs `list`, `resolve` or `validate` for every workspace member.
+ * Exits with 1 if the command fails for any member.
+ */
+async function cmdWorkspace(parsed: ParsedArgs, format: OutputFormat): Promise<number> {
+  const command = parsed.command;
+  if (!isWorkspaceCommand(command)) {
+    console.error(failure(`--workspace is not supported for '${command}'`));
+    console.error("Supported commands: list, resolve, validate");
+    return 1;
+  }
+
+  const rootDir = (parsed.flags.package as string | undefined) ?? ".";
+  let manifests: Map<string, FeatureManifest> | null;
+  try {
+    manifests = await loadWorkspaceManifests(rootDir);
+  } catch (e) {
+    console.error(failure(`Failed to load workspace from ${rootDir}: ${e}`));
+    return 1;
+  }
+
+  if (!manifests) {
+    console.error(failure(`No workspace found in ${rootDir}`));
+    console.error(
+      colorize(
+        "Add 'workspace' to deno.json, 'workspaces' to package.json or a pnpm-workspace.yaml.",
+        "dim",
+      ),
+    );
+    return 1;
+  }
+  if (manifests.size === 0) {
+    console.error(failure("No workspace member has a feature configuration"));
+    return 1;
+  }
+
+  let code = 0;
+
+  if (format !== "text") {
+    const packages = [...manifests].map(([name, manifest]): WorkspacePackageEntry => {
+      const path = manifest.source?.path ?? null;
+      try {
+        const document = memberDocument(command, manifest, parsed.flags);
+        if (document.command === "validate" && !document.valid) {
+          code = 1;
+        }
+        return { name, path, document };
+      } catch (e) {
+        if (!(e instanceof FeatureFlagError)) {
+          throw e;
+        }
+        code = 1;
+        return { name, path, error: e.message };
+      }
+    });
+    printDocument(workspaceDocument(command, packages), format);
+    return code;
+  }
+
+  for (const [name, manifest] of manifests) {
+    const path = manifest.source?.path;
+    console.log(colorize(`==> ${name}`, "bold") + (path ? colorize(` (${path})`, "dim") : ""));
+    try {
+      code = Math.max(code, runMemberCommand(command, manifest, parsed.flags));
+    } catch (e) {
+      if (!(e instanceof FeatureFlagError)) {
+        throw e;
+      }
+      console.error(failure(e.message));
+      code = 1;
+    }
+    console.log();
+  }
+
+  return code;
+}
+
 // =============================================================================
 // Main Entry Point
 // =============================================================================
@@ -417,6 +1256,14 @@ export async function main(args: string[]): Promise<number> {
   if (Deno.env.get("FT_ALL_FEATURES") === "true") {
     parsed.flags["all-features"] = true;
   }
+  const envTarget = Deno.env.get("FT_TARGET");
+  if (envTarget && !parsed.flags.target) {
+    parsed.flags.target = envTarget;
+  }
+  const envProfile = Deno.env.get("FT_PROFILE");
+  if (envProfile && !parsed.flags.profile) {
+    parsed.flags.profile = envProfile;
+  }
 
   // Handle help
   if (!parsed.command || parsed.command === "help" || parsed.flags.help || parsed.flags.h) {
@@ -424,38 +1271,56 @@ export async function main(args: string[]): Promise<number> {
     return 0;
   }
 
-  // Load manifest
-  const packagePath = parsed.flags.package as string | undefined;
-  let manifest: FeatureManifest | null = null;
+  const format = String(parsed.flags.format ?? "text");
+  if (!isOutputFormat(format)) {
+    console.error(failure(`Unknown output format: ${format} (expected text, json or ndjson)`));
+    return 1;
+  }
 
-  if (packagePath) {
-    // Try to load from specified package path
-    const denoPath = `${packagePath}/deno.json`;
-    const pkgPath = `${packagePath}/package.json`;
+  if (parsed.flags.workspace) {
+    return await cmdWorkspace(parsed, format);
+  }
 
-    try {
-      manifest = await loadManifestFromDenoJson(denoPath);
-      if (!manifest) {
-        manifest = await loadManifestFromPackageJson(pkgPath);
-      }
-    } catch (e) {
-      console.error(failure(`Failed to load manifest from ${packagePath}: ${e}`));
-      return 1;
-    }
-  } else {
-    manifest = await loadManifest();
+  // Load manifest
+  const packagePath = (parsed.flags.package as string | undefined) ?? ".";
+  let manifest: FeatureManifest | null;
+  try {
+    manifest = await loadManifestFromDirectory(packagePath);
+  } catch (e) {
+    console.error(failure(`Failed to load manifest from ${packagePath}: ${e}`));
+    return 1;
   }
 
   if (!manifest) {
-    console.error(failure("No feature configuration found in deno.json or package.json"));
+    console.error(
+      failure(
+        "No feature configuration found in features.json, ft-flags.toml, deno.json, deno.jsonc or package.json",
+      ),
+    );
     console.error(colorize("Add a 'features' map to your config file.", "dim"));
     return 1;
   }
 
-  // Execute command
+  try {
+    return await runCommand(parsed, manifest, format);
+  } catch (e) {
+    // Selections that break an exclusive group, a requirement or a target condition
+    if (e instanceof FeatureFlagError) {
+      console.error(failure(e.message));
+      return 1;
+    }
+    throw e;
+  }
+}
+
+async function runCommand(
+  parsed: ParsedArgs,
+  manifest: FeatureManifest,
+  format: OutputFormat,
+): Promise<number> {
   switch (parsed.command) {
     case "list":
-      return cmdList(manifest, parsed.flags);
+      return cmdList(manifest, parsed.flags, format);
 
     case "check": {
       const feature = parsed.positional[0];
@@ -464,19 +1329,53 @@ export async function main(args: string[]): Promise<number> {
         console.error("Usage: ft-flags check <feature>");
         return 1;
       }
-      return cmdCheck(manifest, feature, parsed.flags);
+      return cmdCheck(manifest, feature, parsed.flags, format);
+    }
+
+    case "why": {
+      const feature = parsed.positional[0];
+      if (!feature) {
+        console.error(failure("Missing feature argument"));
+        console.error("Usage: ft-flags why <feature>");
+        return 1;
+      }
+      return cmdWhy(manifest, feature, parsed.flags, format);
     }
 
     case "resolve":
-      return cmdResolve(manifest, parsed.flags);
+      return cmdResolve(manifest, parsed.flags, format);
+
+    case "diff":
+      return await cmdDiff(manifest, parsed.flags, format);
+
+    case "matrix":
+      return cmdMatrix(manifest, parsed.flags, format);
+
+    case "hack": {
+      const command = parsed.rest.length > 0 ? parsed.rest : parsed.positional;
+      return await cmdHack(manifest, command, parsed.flags, format);
+    }
 
     case "tree": {
       const rootFeature = parsed.positional[0];
-      return cmdTree(manifest, rootFeature);
+      return cmdTree(manifest, rootFeature, format);
     }
 
     case "validate":
-      return cmdValidate(manifest);
+      return cmdValidate(manifest, format);
+
+    case "eval": {
+      const expr = parsed.positional.join(" ");
+      if (!expr) {
+        console.error(failure("Missing expression argument"));
+        console.error("Usage: ft-flags eval '<expr>' [--explain]");
+        return 1;
+      }
+      return cmdEval(manifest, expr, parsed.flags, format);
+    }
+
+    case "codegen":
+      return await cmdCodegen(manifest, parsed.flags, format);
 
     default:
       console.error(failure(`Unknown command: ${parsed.command}`));
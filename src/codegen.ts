@@ -0,0 +1,164 @@
+/**
+ * @module codegen
+ * Generation of a typed feature module from a manifest (`ft codegen`).
+ *
+ * The generated module exports a string-literal union of the declared feature
+ * names, a `FEATURES` object, and `isEnabled`/`requireFeature` wrappers that
+ * only accept those names, so a misspelled feature fails to type-check.
+ *
+ * @example
+ * ```ts
+ * const code = generateFeatureModule(manifest);
+ * await Deno.writeTextFile("src/features.gen.ts", code);
+ *
+ * // In application code:
+ * import { isEnabled } from "./features.gen.ts";
+ * isEnabled(registry, "async-runtime"); // ok
+ * isEnabled(registry, "asyn-runtime"); // type error
+ * ```
+ */
+
+import type { FeatureManifest } from "./manifest.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for generating a feature module.
+ */
+export interface CodegenOptions {
+  /** Module the runtime helpers are imported from (default: "@hiisi/ft-flags") */
+  readonly importFrom?: string;
+}
+
+/**
+ * Module the generated code imports from when not overridden.
+ */
+export const DEFAULT_CODEGEN_IMPORT = "@hiisi/ft-flags";
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Quotes an object key unless it is a plain identifier.
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Builds the doc comment of a `FEATURES` entry from its metadata.
+ */
+function featureDocComment(manifest: FeatureManifest, name: string): string[] {
+  const meta = manifest.metadata.get(name);
+  const lines: string[] = [];
+  if (meta?.description) {
+    lines.push(meta.description);
+  }
+  if (meta?.deprecated) {
+    lines.push(["@deprecated", meta.deprecatedMessage].filter(Boolean).join(" "));
+  }
+  if (lines.length === 0) {
+    return [];
+  }
+
+  // Keep the comment from being closed early
+  const escaped = lines.map((line) => line.replaceAll("*/", "*\\/"));
+  return escaped.length === 1
+    ? [`  /** ${escaped[0]} */`]
+    : ["  /**", ...escaped.map((line) => `   * ${line}`), "   */"];
+}
+
+/**
+ * Declares the `FeatureName` union. `deno fmt` keeps unions of two or more
+ * members on separate lines, but joins a single member onto the first line.
+ */
+function featureNameType(names: readonly string[]): string {
+  if (names.length <= 1) {
+    return `export type FeatureName = ${names.length === 0 ? "never" : JSON.stringify(names[0])};`;
+  }
+  return ["export type FeatureName =", ...names.map((name) => `  | ${JSON.stringify(name)}`)]
+    .join("\n") + ";";
+}
+
+/**
+ * Generates a TypeScript module with typed feature names for a manifest.
+ *
+ * The output is deterministic for a given manifest and options, so it can be
+ * compared against a checked-in file to detect when it is out of date. It is
+ * already formatted the way `deno fmt` would format it, at the default or a
+ * wider line width, so formatting the checked-in file doesn't make it stale.
+ *
+ * @param manifest - The manifest whose features are exported
+ * @param options - Optional generation options
+ * @returns The module source, ending with a newline
+ */
+export function generateFeatureModule(
+  manifest: FeatureManifest,
+  options?: CodegenOptions,
+): string {
+  const importFrom = options?.importFrom ?? DEFAULT_CODEGEN_IMPORT;
+  const names = [...manifest.features.keys()];
+  const file = manifest.source?.path?.split("/").pop() ?? manifest.source?.type;
+
+  const lines = [
+    `// Generated by \`ft-flags codegen\`${file ? ` from ${file}` : ""}. Do not edit.`,
+    "",
+    "import {",
+    "  type FeatureRegistry,",
+    "  isEnabled as isEnabledById,",
+    "  requireFeature as requireFeatureById,",
+    "  unsafeFeatureId,",
+    `} from ${JSON.stringify(importFrom)};`,
+    "",
+    "/**",
+    " * Name of a feature declared in the manifest.",
+    " */",
+    featureNameType(names),
+    "",
+    "/**",
+    " * The declared features, by name.",
+    " */",
+    names.length === 0 ? "export const FEATURES = {} as const;" : "export const FEATURES = {",
+    ...(names.length === 0 ? [] : [
+      ...names.flatMap((name) => [
+        ...featureDocComment(manifest, name),
+        `  ${propertyKey(name)}: ${JSON.stringify(name)},`,
+      ]),
+      "} as const;",
+    ]),
+    "",
+    "/**",
+    " * Checks if a string is the name of a declared feature.",
+    " */",
+    "export function isFeatureName(value: string): value is FeatureName {",
+    "  return Object.hasOwn(FEATURES, value);",
+    "}",
+    "",
+    "/**",
+    " * Checks if a declared feature is enabled.",
+    " */",
+    "export function isEnabled(",
+    "  registry: FeatureRegistry,",
+    "  name: FeatureName,",
+    "): boolean {",
+    "  return isEnabledById(registry, unsafeFeatureId(name));",
+    "}",
+    "",
+    "/**",
+    " * Requires a declared feature to be enabled.",
+    " *",
+    " * @throws FeatureNotFoundError if the feature is not enabled",
+    " */",
+    "export function requireFeature(",
+    "  registry: FeatureRegistry,",
+    "  name: FeatureName,",
+    "): void {",
+    "  requireFeatureById(registry, unsafeFeatureId(name));",
+    "}",
+  ];
+
+  return lines.join("\n") + "\n";
+}
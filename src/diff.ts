@@ -0,0 +1,171 @@
+/**
+ * @module diff
+ * Comparison of two feature resolutions.
+ *
+ * The two sides can differ in feature selection, in manifest (e.g. the same
+ * config file at two git revisions), or both.
+ *
+ * @example
+ * ```ts
+ * const diff = diffResolvedFeatures(
+ *   resolveFeatures(manifest, { noDefaultFeatures: true, features: ["std"] }),
+ *   resolveFeatures(manifest, { allFeatures: true }),
+ * );
+ * diff.added; // features enabled only on the "to" side
+ * ```
+ */
+
+import {
+  type FeatureManifest,
+  type ManifestSource,
+  parseManifestText,
+  type ResolvedFeatures,
+} from "./manifest.ts";
+import { ConfigLoadError } from "./types.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A feature enabled on both sides, for different reasons.
+ */
+export interface EnabledByChange {
+  readonly feature: string;
+  /** Direct enablers on the "from" side */
+  readonly before: readonly string[];
+  /** Direct enablers on the "to" side */
+  readonly after: readonly string[];
+}
+
+/**
+ * Difference between two resolved feature sets.
+ */
+export interface FeatureSetDiff {
+  /** Features enabled only on the "to" side (sorted) */
+  readonly added: readonly string[];
+  /** Features enabled only on the "from" side (sorted) */
+  readonly removed: readonly string[];
+  /** Features enabled on both sides whose `enabledBy` changed (sorted by feature) */
+  readonly changed: readonly EnabledByChange[];
+  /** Optional dependencies activated only on the "to" side (sorted) */
+  readonly addedDependencies: readonly string[];
+  /** Optional dependencies activated only on the "from" side (sorted) */
+  readonly removedDependencies: readonly string[];
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+function sameList(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+/**
+ * Compares two resolutions.
+ *
+ * `enabledBy` lists are compared as sets, so enablers that only changed order
+ * are not reported.
+ *
+ * @param from - The baseline resolution
+ * @param to - The resolution to compare against the baseline
+ * @returns What was added, removed and changed going from `from` to `to`
+ */
+export function diffResolvedFeatures(
+  from: ResolvedFeatures,
+  to: ResolvedFeatures,
+): FeatureSetDiff {
+  const added = [...to.enabled].filter((f) => !from.enabled.has(f)).sort();
+  const removed = [...from.enabled].filter((f) => !to.enabled.has(f)).sort();
+
+  const changed: EnabledByChange[] = [];
+  for (const feature of [...to.enabled].sort()) {
+    if (!from.enabled.has(feature)) {
+      continue;
+    }
+    const before = from.enabledBy.get(feature) ?? [];
+    const after = to.enabledBy.get(feature) ?? [];
+    if (!sameList([...before].sort(), [...after].sort())) {
+      changed.push({ feature, before, after });
+    }
+  }
+
+  const fromDeps = new Set(from.activatedDependencies.keys());
+  const toDeps = new Set(to.activatedDependencies.keys());
+
+  return {
+    added,
+    removed,
+    changed,
+    addedDependencies: [...toDeps].filter((d) => !fromDeps.has(d)).sort(),
+    removedDependencies: [...fromDeps].filter((d) => !toDeps.has(d)).sort(),
+  };
+}
+
+/**
+ * Checks if a diff has no differences.
+ */
+export function isEmptyDiff(diff: FeatureSetDiff): boolean {
+  return diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.addedDependencies.length === 0 &&
+    diff.removedDependencies.length === 0;
+}
+
+// =============================================================================
+// Git Revisions
+// =============================================================================
+
+/**
+ * Loads the manifest from the same config file as `source`, as it was at a
+ * git revision. Runs `git show <revision>:<file>` in the file's directory.
+ *
+ * @param source - Source of the current manifest (must have a path)
+ * @param revision - Any git revision, e.g. "HEAD~1" or "main"
+ * @returns The manifest at that revision, or null if it had no features config
+ * @throws ConfigLoadError if the revision starts with "-", git fails, or the file does
+ *   not exist at that revision
+ */
+export async function loadManifestAtRevision(
+  source: ManifestSource,
+  revision: string,
+): Promise<FeatureManifest | null> {
+  if (source.type === "inline" || !source.path) {
+    throw new ConfigLoadError("Cannot load an inline manifest from git");
+  }
+  // git would read it as an option
+  if (revision.startsWith("-")) {
+    throw new ConfigLoadError(`Invalid git revision "${revision}"`, source.path);
+  }
+
+  const slash = source.path.lastIndexOf("/");
+  const dir = slash === -1 ? "." : source.path.slice(0, slash) || "/";
+  const file = source.path.slice(slash + 1);
+
+  let output: Deno.CommandOutput;
+  try {
+    output = await new Deno.Command("git", {
+      args: ["-C", dir, "show", `${revision}:./${file}`],
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+  } catch (error) {
+    throw new ConfigLoadError(
+      `Failed to run git: ${error instanceof Error ? error.message : String(error)}`,
+      source.path,
+    );
+  }
+
+  if (!output.success) {
+    const stderr = new TextDecoder().decode(output.stderr).trim();
+    throw new ConfigLoadError(
+      `Failed to load ${file} at ${revision}: ${stderr}`,
+      source.path,
+    );
+  }
+
+  const content = new TextDecoder().decode(output.stdout);
+  return parseManifestText(content, source.type, `${revision}:${source.path}`);
+}
@@ -4,12 +4,17 @@
  * Provides functions to check if features are enabled.
  * Features are flat (no hierarchy) - use the manifest system for Cargo-style feature dependencies.
  *
+ * Like the registry functions, these only accept declared feature names for a
+ * typed registry.
+ *
  * @module
  */
 
+import { getFeatureState } from "./registry.ts";
 import {
   type FeatureCheckResult,
   type FeatureId,
+  type FeatureKey,
   FeatureNotEnabledError,
   type FeatureRegistry,
   type FeatureState,
@@ -22,9 +27,11 @@ import {
  * @param registry - The feature registry to check against
  * @returns true if the feature is enabled
  */
-export function isEnabled(id: FeatureId, registry: FeatureRegistry): boolean {
-  const state = registry.states.get(id);
-  return state?.enabled ?? false;
+export function isEnabled<TFeatures extends string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
+): boolean {
+  return getFeatureState(registry, id)?.enabled ?? false;
 }
 
 /**
@@ -34,7 +41,10 @@ export function isEnabled(id: FeatureId, registry: FeatureRegistry): boolean {
  * @param registry - The feature registry to check against
  * @returns true if the feature is disabled
  */
-export function isDisabled(id: FeatureId, registry: FeatureRegistry): boolean {
+export function isDisabled<TFeatures extends string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
+): boolean {
   return !isEnabled(id, registry);
 }
 
@@ -45,19 +55,22 @@ export function isDisabled(id: FeatureId, registry: FeatureRegistry): boolean {
  * @param registry - The feature registry to check against
  * @throws FeatureNotEnabledError if the feature is not enabled
  */
-export function requireFeature(id: FeatureId, registry: FeatureRegistry): void {
+export function requireFeature<TFeatures extends string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
+): void {
   if (!isEnabled(id, registry)) {
-    const state = registry.states.get(id);
+    const state = getFeatureState(registry, id);
 
     if (state) {
-      throw new FeatureNotEnabledError(id, state);
+      throw new FeatureNotEnabledError(id as FeatureId, state);
     } else {
       // Feature not in registry - create a default state for the error
       const defaultState: FeatureState = {
         enabled: false,
         reason: "default-disabled",
       };
-      throw new FeatureNotEnabledError(id, defaultState);
+      throw new FeatureNotEnabledError(id as FeatureId, defaultState);
     }
   }
 }
@@ -69,17 +82,17 @@ export function requireFeature(id: FeatureId, registry: FeatureRegistry): void {
  * @param registry - The feature registry to check against
  * @returns A FeatureCheckResult with detailed information
  */
-export function checkFeature(
-  id: FeatureId,
-  registry: FeatureRegistry,
+export function checkFeature<TFeatures extends string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
 ): FeatureCheckResult {
-  const state = registry.states.get(id);
+  const state = getFeatureState(registry, id);
 
   if (!state) {
     // Feature not found, return disabled state
     return {
       enabled: false,
-      featureId: id,
+      featureId: id as FeatureId,
       state: {
         enabled: false,
         reason: "default-disabled",
@@ -89,7 +102,7 @@ export function checkFeature(
 
   return {
     enabled: state.enabled,
-    featureId: id,
+    featureId: id as FeatureId,
     state,
   };
 }
@@ -101,7 +114,10 @@ export function checkFeature(
  * @param registry - The feature registry to check against
  * @returns true if ALL features are enabled
  */
-export function allEnabled(ids: FeatureId[], registry: FeatureRegistry): boolean {
+export function allEnabled<TFeatures extends string>(
+  ids: readonly FeatureKey<TFeatures>[],
+  registry: FeatureRegistry<TFeatures>,
+): boolean {
   for (const id of ids) {
     if (!isEnabled(id, registry)) {
       return false;
@@ -117,7 +133,10 @@ export function allEnabled(ids: FeatureId[], registry: FeatureRegistry): boolean
  * @param registry - The feature registry to check against
  * @returns true if ANY feature is enabled
  */
-export function anyEnabled(ids: FeatureId[], registry: FeatureRegistry): boolean {
+export function anyEnabled<TFeatures extends string>(
+  ids: readonly FeatureKey<TFeatures>[],
+  registry: FeatureRegistry<TFeatures>,
+): boolean {
   for (const id of ids) {
     if (isEnabled(id, registry)) {
       return true;
@@ -133,7 +152,10 @@ export function anyEnabled(ids: FeatureId[], registry: FeatureRegistry): boolean
  * @param registry - The feature registry to check against
  * @returns true if NONE of the features are enabled
  */
-export function noneEnabled(ids: FeatureId[], registry: FeatureRegistry): boolean {
+export function noneEnabled<TFeatures extends string>(
+  ids: readonly FeatureKey<TFeatures>[],
+  registry: FeatureRegistry<TFeatures>,
+): boolean {
   return !anyEnabled(ids, registry);
 }
 
@@ -144,10 +166,10 @@ export function noneEnabled(ids: FeatureId[], registry: FeatureRegistry): boolea
  * @param registry - The feature registry to check against
  * @returns Array of enabled feature IDs
  */
-export function filterEnabled(
-  ids: FeatureId[],
-  registry: FeatureRegistry,
-): FeatureId[] {
+export function filterEnabled<TFeatures extends string>(
+  ids: readonly FeatureKey<TFeatures>[],
+  registry: FeatureRegistry<TFeatures>,
+): FeatureKey<TFeatures>[] {
   return ids.filter((id) => isEnabled(id, registry));
 }
 
@@ -158,10 +180,10 @@ export function filterEnabled(
  * @param registry - The feature registry to check against
  * @returns Array of disabled feature IDs
  */
-export function filterDisabled(
-  ids: FeatureId[],
-  registry: FeatureRegistry,
-): FeatureId[] {
+export function filterDisabled<TFeatures extends string>(
+  ids: readonly FeatureKey<TFeatures>[],
+  registry: FeatureRegistry<TFeatures>,
+): FeatureKey<TFeatures>[] {
   return ids.filter((id) => !isEnabled(id, registry));
 }
 
@@ -172,7 +194,10 @@ export function filterDisabled(
  * @param registry - The feature registry to check against
  * @returns Number of enabled features
  */
-export function countEnabled(ids: FeatureId[], registry: FeatureRegistry): number {
+export function countEnabled<TFeatures extends string>(
+  ids: readonly FeatureKey<TFeatures>[],
+  registry: FeatureRegistry<TFeatures>,
+): number {
   let count = 0;
   for (const id of ids) {
     if (isEnabled(id, registry)) {
@@ -190,9 +215,9 @@ export function countEnabled(ids: FeatureId[], registry: FeatureRegistry): numbe
  * @param fn - The function to execute if the feature is enabled
  * @returns The result of the function, or undefined if the feature is disabled
  */
-export function whenEnabled<T>(
-  id: FeatureId,
-  registry: FeatureRegistry,
+export function whenEnabled<T, TFeatures extends string = string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
   fn: () => T,
 ): T | undefined {
   if (isEnabled(id, registry)) {
@@ -209,9 +234,9 @@ export function whenEnabled<T>(
  * @param fn - The function to execute if the feature is disabled
  * @returns The result of the function, or undefined if the feature is enabled
  */
-export function whenDisabled<T>(
-  id: FeatureId,
-  registry: FeatureRegistry,
+export function whenDisabled<T, TFeatures extends string = string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
   fn: () => T,
 ): T | undefined {
   if (!isEnabled(id, registry)) {
@@ -229,9 +254,9 @@ export function whenDisabled<T>(
  * @param disabledValue - Value to return if feature is disabled
  * @returns The appropriate value based on feature state
  */
-export function choose<T>(
-  id: FeatureId,
-  registry: FeatureRegistry,
+export function choose<T, TFeatures extends string = string>(
+  id: FeatureKey<TFeatures>,
+  registry: FeatureRegistry<TFeatures>,
   enabledValue: T,
   disabledValue: T,
 ): T {
@@ -13,13 +13,31 @@
 
 import {
   ConfigLoadError,
+  type ConfigSource,
+  type FeatureConfig,
+  FeatureConflictError,
+  type FeatureDefinitionInput,
+  FeatureFlagError,
   type FeatureId,
   featureId,
+  type FeatureMetadata,
+  type FeatureRegistry,
+  FeatureRequirementError,
+  type FeatureSchema,
+  type FeatureState,
+  type FeatureStateReason,
+  FeatureUnavailableError,
   getDepFeature,
   getDepPackage,
   isDepFeatureRef,
   isValidFeatureId,
+  ProfileCycleError,
+  type TypedFeatureId,
 } from "./types.ts";
+import { buildSchema } from "./schema.ts";
+import { type CfgExpr, cfgFeatures, evaluateCfg, formatCfg, parseCfg } from "./cfg.ts";
+import { indexJsonLocations, jsonPointer, parseJson, type SourceLocation } from "./source.ts";
+import { parseToml } from "./toml.ts";
 
 // =============================================================================
 // Manifest Types
@@ -30,6 +48,12 @@ import {
  * This is the parsed representation of the `ftFlags` config section.
  */
 export interface FeatureManifest {
+  /**
+   * The package name (from the `name` field of the config file), if known.
+   * Used to match `pkg:feature` references across packages.
+   */
+  readonly name?: string;
+
   /**
    * Map of feature names to the features they activate.
    * The special "default" feature lists features enabled by default.
@@ -41,6 +65,17 @@ export interface FeatureManifest {
    */
   readonly metadata: ReadonlyMap<string, FeatureManifestMetadata>;
 
+  /**
+   * Features that were not declared but created implicitly for optional
+   * dependencies (see `FtFlagsSettings.implicitFeatures`).
+   */
+  readonly implicitFeatures?: ReadonlySet<string>;
+
+  /**
+   * Tool settings from the `metadata.ftFlags` namespace.
+   */
+  readonly settings?: FtFlagsSettings;
+
   /**
    * The source file this manifest was loaded from.
    */
@@ -50,13 +85,36 @@ export interface FeatureManifest {
    * Package dependencies (for validating dep: and pkg:feature references).
    */
   readonly dependencies?: PackageDependencies;
+
+  /**
+   * Source locations of entries in the config file, keyed by JSON Pointer
+   * (e.g. `/features/std/0`). Present when loaded from a file.
+   */
+  readonly locations?: ReadonlyMap<string, SourceLocation>;
+
+  /**
+   * Other config files in the same directory that also define features, and
+   * were ignored because `source` takes precedence.
+   */
+  readonly shadowedSources?: readonly ManifestSource[];
 }
 
+/**
+ * Config files a manifest can be loaded from. `features.json` and
+ * `ft-flags.toml` are standalone manifests that hold only the feature config.
+ */
+export type ConfigFileType =
+  | "features.json"
+  | "ft-flags.toml"
+  | "deno.json"
+  | "deno.jsonc"
+  | "package.json";
+
 /**
  * Source information for a loaded manifest.
  */
 export interface ManifestSource {
-  readonly type: "deno.json" | "package.json" | "inline";
+  readonly type: ConfigFileType | "inline";
   readonly path?: string;
 }
 
@@ -70,15 +128,99 @@ export interface FeatureManifestMetadata {
   readonly deprecated?: boolean;
   readonly deprecatedMessage?: string;
   readonly docsUrl?: string;
+  /**
+   * Dependencies that must be present when the feature is enabled. An optional
+   * dependency must also be activated (via `dep:`) by an enabled feature.
+   */
   readonly requiredDeps?: readonly string[];
+  /**
+   * Features that must also be enabled when this one is. Unlike the feature's
+   * own list, these are not enabled automatically.
+   */
+  readonly requires?: readonly string[];
+  /**
+   * cfg condition on the target, e.g. `any(target("node"), target("deno"))`.
+   * When resolving for a target that fails it, the feature is unavailable.
+   */
+  readonly when?: string;
+  /** Only meant to be enabled by other features, not selected directly */
+  readonly internal?: boolean;
+}
+
+/**
+ * Tool settings, configured under `metadata.ftFlags` in deno.json or package.json.
+ */
+export interface FtFlagsSettings {
+  /**
+   * If true, every optional dependency that is not referenced via `dep:`
+   * gets an implicit feature of the same name that activates it, as in Cargo.
+   * Dependencies whose names are not valid feature IDs (e.g. scoped packages)
+   * are skipped.
+   */
+  readonly implicitFeatures?: boolean;
+
+  /**
+   * Level for each validation rule, overriding its default (see `DEFAULT_LINT_LEVELS`).
+   */
+  readonly lint?: LintRules;
+
+  /**
+   * Extra features enabled with the defaults for each target, e.g.
+   * `{ "node": ["fs"], "browser": ["fetch"] }`.
+   */
+  readonly targetDefaults?: Readonly<Record<string, readonly string[]>>;
+
+  /**
+   * Groups of mutually exclusive features, keyed by group name.
+   */
+  readonly exclusiveGroups?: Readonly<Record<string, ExclusiveGroup>>;
+
+  /**
+   * Named feature selections, keyed by profile name (see `ResolveOptions.profile`).
+   */
+  readonly profiles?: Readonly<Record<string, FeatureProfile>>;
+}
+
+/**
+ * A named feature selection, e.g. `minimal`, `ci` or `prod`.
+ */
+export interface FeatureProfile {
+  /** Profiles this one builds on, applied in order before its own settings */
+  readonly extends?: string | readonly string[];
+  /** Features to enable, added to those of extended profiles */
+  readonly features?: readonly string[];
+  readonly noDefaultFeatures?: boolean;
+  readonly allFeatures?: boolean;
+  readonly target?: string;
+  readonly description?: string;
+}
+
+/**
+ * How many members of an exclusive group may be enabled.
+ * - `at-most-one`: zero or one
+ * - `exactly-one`: one (resolution fails if none is enabled)
+ */
+export type ExclusiveMode = "at-most-one" | "exactly-one";
+
+/**
+ * A group of mutually exclusive features, e.g. one per target runtime.
+ */
+export interface ExclusiveGroup {
+  readonly features: readonly string[];
+  /** Default: "at-most-one" */
+  readonly mode?: ExclusiveMode;
+  readonly description?: string;
 }
 
 /**
  * Raw configuration as it appears in deno.json or package.json.
  */
 export interface RawFtFlagsConfig {
+  readonly name?: string;
   readonly features: Record<string, string[]>;
   readonly metadata?: Record<string, FeatureManifestMetadata>;
+  /** Settings from `metadata.ftFlags` */
+  readonly ftFlags?: FtFlagsSettings;
 }
 
 /**
@@ -108,8 +250,15 @@ export interface ValidateOptions {
   /**
    * Whether to treat unknown external dependencies as errors (default: false).
    * When false, unknown deps generate warnings instead of errors.
+   * Shorthand for `rules: { "unknown-dependency": "error" }`.
    */
   readonly strictDependencies?: boolean;
+
+  /**
+   * Level for each validation rule. Takes precedence over `metadata.ftFlags.lint`
+   * in the manifest and over `strictDependencies`.
+   */
+  readonly rules?: LintRules;
 }
 
 /**
@@ -130,6 +279,20 @@ export interface ResolveOptions {
    * If true, all available features are enabled.
    */
   readonly allFeatures?: boolean;
+
+  /**
+   * Target to resolve for, e.g. "node" or "browser". Features whose `when`
+   * condition fails for it are unavailable, and its `targetDefaults` are
+   * enabled with the defaults. Without a target, conditions are ignored.
+   */
+  readonly target?: string;
+
+  /**
+   * Profile from `metadata.ftFlags.profiles` to start from. The other options
+   * are applied on top: `features` are added to the profile's, and flags that
+   * are set override it.
+   */
+  readonly profile?: string;
 }
 
 /**
@@ -146,6 +309,18 @@ export interface ResolvedFeatures {
    */
   readonly enabledBy: ReadonlyMap<string, readonly string[]>;
 
+  /**
+   * Map of optional dependency (activated via `dep:`) to the features that
+   * activated it.
+   */
+  readonly activatedDependencies: ReadonlyMap<string, readonly string[]>;
+
+  /**
+   * Activated dependencies that are not declared in the manifest's
+   * `optionalDependencies`. Empty when the manifest has no dependency info.
+   */
+  readonly undeclaredDependencies: readonly string[];
+
   /**
    * The manifest used for resolution.
    */
@@ -155,6 +330,104 @@ export interface ResolvedFeatures {
    * The options used for resolution.
    */
   readonly options: ResolveOptions;
+
+  /**
+   * The target resolved for, from the options or the profile.
+   */
+  readonly target?: string;
+}
+
+/**
+ * Stable codes for each kind of manifest diagnostic, keyed by rule name.
+ * Codes never change meaning; new rules get new codes.
+ */
+export const DIAGNOSTIC_CODES = {
+  "unknown-feature-ref": "FT001",
+  "invalid-feature-name": "FT002",
+  "self-reference": "FT003",
+  "invalid-reference": "FT004",
+  "circular-dependency": "FT005",
+  "unknown-dependency": "FT006",
+  "unknown-metadata-feature": "FT007",
+  "deprecated-without-message": "FT008",
+  "missing-default": "FT009",
+  "empty-default": "FT010",
+  "invalid-lint-config": "FT011",
+  "unreachable-feature": "FT012",
+  "redundant-entry": "FT013",
+  "duplicate-entry": "FT014",
+  "invalid-exclusive-group": "FT015",
+  "exclusive-conflict": "FT016",
+  "invalid-requirement": "FT017",
+  "unknown-required-dep": "FT018",
+  "invalid-target-config": "FT019",
+  "invalid-profile": "FT020",
+  "multiple-manifests": "FT021",
+} as const;
+
+/**
+ * Name of a manifest validation rule.
+ */
+export type DiagnosticRule = keyof typeof DIAGNOSTIC_CODES;
+
+/**
+ * Severity of a manifest diagnostic.
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * Level of a validation rule: disabled, reported as a warning, or reported as an error.
+ */
+export type LintLevel = "off" | "warn" | "error";
+
+/**
+ * Per-rule level overrides, as configured in `metadata.ftFlags.lint`.
+ */
+export type LintRules = Readonly<Partial<Record<DiagnosticRule, LintLevel>>>;
+
+/**
+ * Level of each validation rule when not overridden.
+ */
+export const DEFAULT_LINT_LEVELS: Readonly<Record<DiagnosticRule, LintLevel>> = {
+  "unknown-feature-ref": "error",
+  "invalid-feature-name": "error",
+  "self-reference": "error",
+  "invalid-reference": "error",
+  "circular-dependency": "error",
+  "unknown-dependency": "warn",
+  "unknown-metadata-feature": "warn",
+  "deprecated-without-message": "warn",
+  "missing-default": "warn",
+  "empty-default": "warn",
+  "invalid-lint-config": "warn",
+  "unreachable-feature": "warn",
+  "redundant-entry": "warn",
+  "duplicate-entry": "warn",
+  "invalid-exclusive-group": "error",
+  "exclusive-conflict": "error",
+  "invalid-requirement": "error",
+  "unknown-required-dep": "error",
+  "invalid-target-config": "error",
+  "invalid-profile": "error",
+  "multiple-manifests": "warn",
+};
+
+/**
+ * A single problem found by `validateManifest`.
+ */
+export interface ManifestDiagnostic {
+  /** Stable code, e.g. "FT001" */
+  readonly code: string;
+  /** Rule name, e.g. "unknown-feature-ref" */
+  readonly rule: DiagnosticRule;
+  readonly severity: DiagnosticSeverity;
+  readonly message: string;
+  /** The feature the problem was found in */
+  readonly feature?: string;
+  /** The offending reference within the feature, if any */
+  readonly reference?: string;
+  /** Where the problem is in the config file, if the manifest was loaded from one */
+  readonly location?: SourceLocation;
 }
 
 /**
@@ -162,8 +435,12 @@ export interface ResolvedFeatures {
  */
 export interface ManifestValidation {
   readonly valid: boolean;
+  /** Messages of error diagnostics */
   readonly errors: readonly string[];
+  /** Messages of warning diagnostics */
   readonly warnings: readonly string[];
+  /** All diagnostics, in the order they were found */
+  readonly diagnostics: readonly ManifestDiagnostic[];
 }
 
 /**
@@ -187,17 +464,35 @@ export interface ExternalReference {
 // =============================================================================
 
 /**
- * Options for loading a manifest from a config file.
+ * Extracts imports as dependencies for Deno.
  */
-interface LoadManifestOptions {
-  /** Path to the config file */
-  path: string;
-  /** Type of config file */
-  type: "deno.json" | "package.json";
-  /** Extract dependencies from the parsed JSON */
-  extractDeps: (json: Record<string, unknown>) => PackageDependencies | undefined;
+function denoDependencies(json: Record<string, unknown>): PackageDependencies | undefined {
+  const imports = json.imports as Record<string, string> | undefined;
+  return imports
+    ? { dependencies: Object.fromEntries(Object.keys(imports).map((k) => [k, "*"])) }
+    : undefined;
 }
 
+/**
+ * Extracts package dependencies from each kind of config file.
+ */
+const DEPENDENCY_EXTRACTORS: Record<
+  ConfigFileType,
+  (json: Record<string, unknown>) => PackageDependencies | undefined
+> = {
+  // Standalone manifests take dependencies from the package config next to them
+  "features.json": () => undefined,
+  "ft-flags.toml": () => undefined,
+  "deno.json": denoDependencies,
+  "deno.jsonc": denoDependencies,
+  "package.json": (json) => ({
+    dependencies: json.dependencies as Record<string, string> | undefined,
+    optionalDependencies: json.optionalDependencies as Record<string, string> | undefined,
+    peerDependencies: json.peerDependencies as Record<string, string> | undefined,
+    devDependencies: json.devDependencies as Record<string, string> | undefined,
+  }),
+};
+
 /**
  * Extracts the feature config from a parsed JSON config file.
  * This is shared logic between deno.json and package.json loading.
@@ -218,68 +513,124 @@ function extractFeaturesConfig(
     | Record<string, FeatureManifestMetadata>
     | undefined;
 
+  // Tool settings live next to it: metadata.ftFlags
+  const settings = metadata?.ftFlags as FtFlagsSettings | undefined;
+
   return {
+    name: typeof json.name === "string" ? json.name : undefined,
     features,
     metadata: featureMetadata,
+    ftFlags: settings,
   };
 }
 
 /**
- * Generic config file loader that handles common patterns.
+ * Parses the text of a config file into an object. TOML for ft-flags.toml;
+ * JSON otherwise, with comments and trailing commas allowed in Deno config files.
  */
-async function loadManifestFromConfigFile(
-  options: LoadManifestOptions,
-): Promise<FeatureManifest | null> {
-  try {
-    const content = await Deno.readTextFile(options.path);
-    const json = JSON.parse(content) as Record<string, unknown>;
+function parseConfigText(
+  content: string,
+  type: ConfigFileType,
+  path?: string,
+): Record<string, unknown> {
+  if (type === "ft-flags.toml") {
+    return parseToml(content, path);
+  }
+  const comments = type === "deno.json" || type === "deno.jsonc";
+  return parseJson(content, { comments, path }) as Record<string, unknown>;
+}
 
-    const rawConfig = extractFeaturesConfig(json);
-    if (!rawConfig) {
-      return null;
-    }
+/**
+ * Builds a manifest from a parsed config file.
+ *
+ * @param pkg - The package config next to a standalone manifest, which
+ *   provides the package name and dependencies
+ */
+function buildManifest(
+  json: Record<string, unknown>,
+  content: string,
+  type: ConfigFileType,
+  path?: string,
+  pkg?: { readonly json: Record<string, unknown>; readonly type: ConfigFileType },
+): FeatureManifest | null {
+  const rawConfig = extractFeaturesConfig(json);
+  if (!rawConfig) {
+    return null;
+  }
+
+  const name = rawConfig.name ??
+    (typeof pkg?.json.name === "string" ? pkg.json.name : undefined);
+  const deps = DEPENDENCY_EXTRACTORS[type](json) ??
+    (pkg ? DEPENDENCY_EXTRACTORS[pkg.type](pkg.json) : undefined);
+  const manifest = parseManifest({ ...rawConfig, name }, { type, path }, deps);
 
-    const deps = options.extractDeps(json);
+  return type === "ft-flags.toml"
+    ? manifest
+    : { ...manifest, locations: indexJsonLocations(content, path) };
+}
 
-    return parseManifest(rawConfig, {
-      type: options.type,
-      path: options.path,
-    }, deps);
+/**
+ * Parses a feature manifest from the text of a config file. Deno config files
+ * may contain comments and trailing commas; ft-flags.toml is parsed as TOML.
+ *
+ * @param content - The config file contents
+ * @param type - Which kind of config file the text comes from
+ * @param path - Optional path of the file, recorded in the manifest source
+ * @returns The parsed manifest, or null if no features config found
+ * @throws ConfigParseError if the text is not valid JSON or TOML, with the line and column
+ */
+export function parseManifestText(
+  content: string,
+  type: ConfigFileType,
+  path?: string,
+): FeatureManifest | null {
+  return buildManifest(parseConfigText(content, type, path), content, type, path);
+}
+
+/**
+ * Reads a config file, or returns null if it does not exist.
+ */
+async function readConfigFile(path: string, type: ConfigFileType): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
   } catch (error) {
     if (error instanceof Deno.errors.NotFound) {
       return null;
     }
     throw new ConfigLoadError(
-      `Failed to load ${options.type}: ${error instanceof Error ? error.message : String(error)}`,
-      options.path,
+      `Failed to load ${type}: ${error instanceof Error ? error.message : String(error)}`,
+      path,
     );
   }
 }
 
 /**
- * Loads a feature manifest from deno.json.
+ * Generic config file loader that handles common patterns.
+ */
+async function loadManifestFromConfigFile(
+  path: string,
+  type: ConfigFileType,
+): Promise<FeatureManifest | null> {
+  const content = await readConfigFile(path, type);
+  return content === null ? null : parseManifestText(content, type, path);
+}
+
+/**
+ * Loads a feature manifest from deno.json or deno.jsonc.
  *
  * Features are defined at the root level of the config file.
  * Optional metadata uses the `metadata.features` namespace.
+ * Comments and trailing commas are allowed.
  *
- * @param path - Path to deno.json (default: "./deno.json")
+ * @param path - Path to the config file (default: "./deno.json")
  * @returns The loaded manifest, or null if no features config found
  * @throws ConfigLoadError if the file cannot be read or parsed
  */
 export function loadManifestFromDenoJson(
   path?: string,
 ): Promise<FeatureManifest | null> {
-  return loadManifestFromConfigFile({
-    path: path ?? "./deno.json",
-    type: "deno.json",
-    extractDeps: (json) => {
-      // Extract imports as dependencies for Deno
-      const imports = json.imports as Record<string, string> | undefined;
-      return imports
-        ? { dependencies: Object.fromEntries(Object.keys(imports).map((k) => [k, "*"])) }
-        : undefined;
-    },
-  });
+  const file = path ?? "./deno.json";
+  return loadManifestFromConfigFile(file, file.endsWith(".jsonc") ? "deno.jsonc" : "deno.json");
 }
 
 /**
@@ -295,38 +646,124 @@ export function loadManifestFromDenoJson(
 export function loadManifestFromPackageJson(
   path?: string,
 ): Promise<FeatureManifest | null> {
-  return loadManifestFromConfigFile({
-    path: path ?? "./package.json",
-    type: "package.json",
-    extractDeps: (json) => ({
-      dependencies: json.dependencies as Record<string, string> | undefined,
-      optionalDependencies: json.optionalDependencies as Record<string, string> | undefined,
-      peerDependencies: json.peerDependencies as Record<string, string> | undefined,
-      devDependencies: json.devDependencies as Record<string, string> | undefined,
-    }),
-  });
+  return loadManifestFromConfigFile(path ?? "./package.json", "package.json");
 }
 
 /**
- * Auto-detects and loads a feature manifest from the current directory.
- * Tries deno.json first, then package.json.
+ * Config files a package directory is searched for, in order of precedence.
+ */
+const MANIFEST_FILES: readonly ConfigFileType[] = [
+  "features.json",
+  "ft-flags.toml",
+  "deno.json",
+  "deno.jsonc",
+  "package.json",
+];
+
+/**
+ * Config files that hold only the feature config.
+ */
+const STANDALONE_FILES: ReadonlySet<ConfigFileType> = new Set(["features.json", "ft-flags.toml"]);
+
+/**
+ * Loads a standalone manifest from features.json.
+ *
+ * The file has the same layout as the feature config in deno.json: a
+ * top-level `features` key, and optionally `name` and `metadata`. Comments are
+ * not allowed.
+ *
+ * @param path - Path to the file (default: "./features.json")
+ * @returns The loaded manifest, or null if no features config found
+ * @throws ConfigLoadError if the file cannot be read or parsed
+ */
+export function loadManifestFromFeaturesJson(
+  path?: string,
+): Promise<FeatureManifest | null> {
+  return loadManifestFromConfigFile(path ?? "./features.json", "features.json");
+}
+
+/**
+ * Loads a standalone manifest from ft-flags.toml.
+ *
+ * The file has the same layout as features.json, in TOML: a `[features]`
+ * table, and optionally `name` and `[metadata.features.<name>]` tables.
  *
+ * @param path - Path to the file (default: "./ft-flags.toml")
+ * @returns The loaded manifest, or null if no features config found
+ * @throws ConfigLoadError if the file cannot be read or parsed
+ */
+export function loadManifestFromFtFlagsToml(
+  path?: string,
+): Promise<FeatureManifest | null> {
+  return loadManifestFromConfigFile(path ?? "./ft-flags.toml", "ft-flags.toml");
+}
+
+/**
+ * Loads the feature manifest of a package directory.
+ *
+ * Tries features.json, ft-flags.toml, deno.json, deno.jsonc, then
+ * package.json, and uses the first one with a features config. A standalone
+ * manifest takes the package name and dependencies from the first package
+ * config next to it. Other files that also define features are recorded in
+ * `shadowedSources`.
+ *
+ * @param dir - The package directory
  * @returns The loaded manifest, or null if no config found
+ * @throws ConfigLoadError if a config file cannot be read, or the one used cannot be parsed
  */
-export async function loadManifest(): Promise<FeatureManifest | null> {
-  // Try deno.json first
-  const denoManifest = await loadManifestFromDenoJson();
-  if (denoManifest) {
-    return denoManifest;
+export async function loadManifestFromDirectory(dir: string): Promise<FeatureManifest | null> {
+  const files = await Promise.all(MANIFEST_FILES.map(async (type) => {
+    const path = `${dir}/${type}`;
+    return { type, path, content: await readConfigFile(path, type) };
+  }));
+  const present = files.filter((file) => file.content !== null);
+
+  const parsed: { type: ConfigFileType; path: string; json: Record<string, unknown> }[] = [];
+  let winner: { type: ConfigFileType; path: string; content: string } | undefined;
+  for (const file of present) {
+    const content = file.content!;
+    let json: Record<string, unknown>;
+    try {
+      json = parseConfigText(content, file.type, file.path);
+    } catch (error) {
+      // A broken file that would not be used anyway is not an error
+      if (winner) {
+        continue;
+      }
+      throw error;
+    }
+    parsed.push({ ...file, json });
+    if (!winner && extractFeaturesConfig(json)) {
+      winner = { ...file, content };
+    }
   }
 
-  // Try package.json
-  const packageManifest = await loadManifestFromPackageJson();
-  if (packageManifest) {
-    return packageManifest;
+  if (!winner) {
+    return null;
   }
 
-  return null;
+  const pkg = STANDALONE_FILES.has(winner.type)
+    ? parsed.find((file) => !STANDALONE_FILES.has(file.type))
+    : undefined;
+  const json = parsed.find((file) => file.type === winner.type)!.json;
+  const manifest = buildManifest(json, winner.content, winner.type, winner.path, pkg)!;
+
+  const shadowedSources = parsed
+    .filter((file) => file.type !== winner.type && extractFeaturesConfig(file.json))
+    .map((file): ManifestSource => ({ type: file.type, path: file.path }));
+
+  return shadowedSources.length > 0 ? { ...manifest, shadowedSources } : manifest;
+}
+
+/**
+ * Auto-detects and loads a feature manifest from the current directory.
+ * Tries features.json, ft-flags.toml, deno.json, deno.jsonc, then package.json.
+ *
+ * @returns The loaded manifest, or null if no config found
+ * @throws ConfigLoadError if a config file cannot be read or parsed
+ */
+export function loadManifest(): Promise<FeatureManifest | null> {
+  return loadManifestFromDirectory(".");
 }
 
 /**
@@ -357,14 +794,49 @@ export function parseManifest(
     }
   }
 
+  // Create implicit features for optional dependencies (opt-in)
+  const implicitFeatures = new Set<string>();
+  if (config.ftFlags?.implicitFeatures && dependencies?.optionalDependencies) {
+    const referenced = new Set<string>();
+    for (const deps of features.values()) {
+      for (const dep of deps) {
+        if (dep.startsWith("dep:")) {
+          referenced.add(dep.slice(4));
+        }
+      }
+    }
+
+    for (const depName of Object.keys(dependencies.optionalDependencies)) {
+      if (referenced.has(depName) || features.has(depName) || !isValidFeatureId(depName)) {
+        continue;
+      }
+      features.set(depName, Object.freeze([`dep:${depName}`]));
+      implicitFeatures.add(depName);
+    }
+  }
+
   return {
+    name: config.name,
     features,
     metadata,
+    implicitFeatures: implicitFeatures.size > 0 ? implicitFeatures : undefined,
+    settings: config.ftFlags ? Object.freeze({ ...config.ftFlags }) : undefined,
     source,
     dependencies,
   };
 }
 
+/**
+ * Checks if a feature was created implicitly for an optional dependency.
+ *
+ * @param manifest - The feature manifest
+ * @param feature - The feature name to check
+ * @returns True if the feature is implicit
+ */
+export function isImplicitFeature(manifest: FeatureManifest, feature: string): boolean {
+  return manifest.implicitFeatures?.has(feature) ?? false;
+}
+
 /**
  * Creates an empty manifest.
  */
@@ -410,12 +882,104 @@ export function createSimpleManifest(
 // Feature Resolution
 // =============================================================================
 
+/**
+ * Layers one set of resolve options over another: features are combined,
+ * flags and target set in `over` win.
+ */
+function mergeResolveOptions(base: ResolveOptions, over: ResolveOptions): ResolveOptions {
+  const features = [...(base.features ?? [])];
+  for (const feature of over.features ?? []) {
+    if (!features.includes(feature)) {
+      features.push(feature);
+    }
+  }
+
+  return {
+    features,
+    noDefaultFeatures: over.noDefaultFeatures ?? base.noDefaultFeatures,
+    allFeatures: over.allFeatures ?? base.allFeatures,
+    target: over.target ?? base.target,
+  };
+}
+
+/**
+ * Expands a profile from `metadata.ftFlags.profiles` into resolve options,
+ * following `extends`.
+ *
+ * @param manifest - The feature manifest
+ * @param name - The profile name
+ * @returns The profile's selection
+ * @throws FeatureFlagError if the profile or one it extends is not defined
+ * @throws ProfileCycleError if profiles extend each other in a cycle
+ */
+export function expandProfile(manifest: FeatureManifest, name: string): ResolveOptions {
+  const profiles = manifest.settings?.profiles ?? {};
+
+  const expand = (current: string, stack: readonly string[]): ResolveOptions => {
+    if (stack.includes(current)) {
+      throw new ProfileCycleError([...stack, current]);
+    }
+
+    const profile = Object.hasOwn(profiles, current) ? profiles[current] : undefined;
+    if (!profile) {
+      const parent = stack[stack.length - 1];
+      const available = Object.keys(profiles);
+      throw new FeatureFlagError(
+        parent !== undefined
+          ? `Profile "${parent}" extends unknown profile "${current}"`
+          : `Unknown profile "${current}"` +
+            (available.length > 0 ? ` (available: ${available.join(", ")})` : ""),
+      );
+    }
+
+    const parents = typeof profile.extends === "string" ? [profile.extends] : profile.extends ?? [];
+    const inherited = parents.reduce<ResolveOptions>(
+      (options, parent) => mergeResolveOptions(options, expand(parent, [...stack, current])),
+      {},
+    );
+
+    return mergeResolveOptions(inherited, {
+      features: profile.features,
+      noDefaultFeatures: profile.noDefaultFeatures,
+      allFeatures: profile.allFeatures,
+      target: profile.target,
+    });
+  };
+
+  return expand(name, []);
+}
+
+/**
+ * Gets the selection a resolution uses: the profile's, expanded, with the
+ * other options applied on top, as in `resolveFeatures`.
+ *
+ * @param manifest - The feature manifest
+ * @param options - Resolution options
+ * @returns The options with the profile expanded (and still named)
+ * @throws FeatureFlagError if `options.profile` cannot be expanded
+ */
+export function effectiveResolveOptions(
+  manifest: FeatureManifest,
+  options: ResolveOptions,
+): ResolveOptions {
+  if (options.profile === undefined) {
+    return options;
+  }
+  const profile = expandProfile(manifest, options.profile);
+  return { ...mergeResolveOptions(profile, options), profile: options.profile };
+}
+
 /**
  * Resolves which features are enabled based on options.
  *
  * @param manifest - The feature manifest
  * @param options - Resolution options
  * @returns The resolved features
+ * @throws FeatureFlagError if `options.profile` cannot be expanded
+ * @throws FeatureUnavailableError if a selected feature is not available for the target
+ * @throws FeatureConflictError if the result breaks an exclusive group
+ * @throws FeatureRequirementError if an enabled feature's `requires` or
+ *   `requiredDeps` are not met
  */
 export function resolveFeatures(
   manifest: FeatureManifest,
@@ -423,14 +987,56 @@ export function resolveFeatures(
 ): ResolvedFeatures {
   const enabled = new Set<string>();
   const enabledBy = new Map<string, string[]>();
+  const activatedDependencies = new Map<string, string[]>();
+
+  // Options set explicitly override the profile
+  const profile = options.profile !== undefined ? expandProfile(manifest, options.profile) : {};
+  const allFeatures = options.allFeatures ?? profile.allFeatures;
+  const noDefaultFeatures = options.noDefaultFeatures ?? profile.noDefaultFeatures;
+  const target = options.target ?? profile.target;
+
+  // Parsed `when` conditions, for features that have one
+  const conditions = new Map<string, CfgExpr>();
+  if (target !== undefined) {
+    for (const [name, meta] of manifest.metadata) {
+      if (meta.when !== undefined) {
+        conditions.set(name, parseCfg(meta.when));
+      }
+    }
+  }
+  const isAvailable = (feature: string): boolean => {
+    const condition = conditions.get(feature);
+    return !condition || evaluateCfg(condition, () => false, { target });
+  };
 
   // Helper to enable a feature and track why
   const enable = (feature: string, by: string): void => {
+    // dep: activates an optional dependency rather than a feature
+    if (feature.startsWith("dep:")) {
+      const depName = feature.slice(4);
+      const activators = activatedDependencies.get(depName) ?? [];
+      if (!activators.includes(by)) {
+        activators.push(by);
+        activatedDependencies.set(depName, activators);
+      }
+      return;
+    }
+
     if (!manifest.features.has(feature)) {
       // Feature doesn't exist in manifest, skip
       return;
     }
 
+    // Features not available for the target are only an error when selected
+    if (!isAvailable(feature)) {
+      const condition = conditions.get(feature);
+      const selected = by === "<explicit>" || by.startsWith("<profile:");
+      if (selected && condition && target !== undefined) {
+        throw new FeatureUnavailableError(feature, target, formatCfg(condition));
+      }
+      return;
+    }
+
     const wasEnabled = enabled.has(feature);
     enabled.add(feature);
 
@@ -454,17 +1060,28 @@ export function resolveFeatures(
   };
 
   // Enable all features if requested
-  if (options.allFeatures) {
+  if (allFeatures) {
     for (const name of manifest.features.keys()) {
       enable(name, "<all-features>");
     }
   } else {
     // Enable default features unless disabled
-    if (!options.noDefaultFeatures && manifest.features.has("default")) {
+    if (!noDefaultFeatures && manifest.features.has("default")) {
       enable("default", "<default>");
     }
 
-    // Enable explicitly requested features
+    // Target-specific defaults come with the defaults
+    const targetDefaults = manifest.settings?.targetDefaults ?? {};
+    if (!noDefaultFeatures && target !== undefined && Object.hasOwn(targetDefaults, target)) {
+      for (const feature of targetDefaults[target]) {
+        enable(feature, `<target:${target}>`);
+      }
+    }
+
+    // Enable the profile's features, then explicitly requested ones
+    for (const feature of profile.features ?? []) {
+      enable(feature, `<profile:${options.profile}>`);
+    }
     if (options.features) {
       for (const feature of options.features) {
         enable(feature, "<explicit>");
@@ -472,12 +1089,127 @@ export function resolveFeatures(
     }
   }
 
-  return {
+  // Flag activated dependencies that are not declared as optional
+  const undeclaredDependencies: string[] = [];
+  if (manifest.dependencies) {
+    const optional = manifest.dependencies.optionalDependencies ?? {};
+    for (const depName of activatedDependencies.keys()) {
+      if (!Object.hasOwn(optional, depName)) {
+        undeclaredDependencies.push(depName);
+      }
+    }
+  }
+
+  const resolved: ResolvedFeatures = {
     enabled,
     enabledBy,
+    activatedDependencies,
+    undeclaredDependencies: undeclaredDependencies.sort(),
     manifest,
     options,
+    target,
   };
+
+  checkExclusiveGroups(resolved);
+  checkRequirements(resolved);
+
+  return resolved;
+}
+
+/**
+ * Describes how a feature was enabled, e.g. `<explicit> -> full -> fs`.
+ */
+function describeEnablePath(feature: string, resolved: ResolvedFeatures): string {
+  return (getEnablePaths(feature, resolved)?.[0] ?? [feature]).join(" -> ");
+}
+
+/**
+ * Throws if a resolution breaks one of the manifest's exclusive groups.
+ * The message names how each conflicting member was enabled.
+ */
+function checkExclusiveGroups(resolved: ResolvedFeatures): void {
+  const groups = resolved.manifest.settings?.exclusiveGroups ?? {};
+
+  for (const [group, definition] of Object.entries(groups)) {
+    // Malformed groups are reported by validateManifest
+    if (!Array.isArray(definition?.features)) {
+      continue;
+    }
+    const { features, mode } = definition;
+    const members = features.filter((f) => resolved.enabled.has(f));
+
+    if (members.length > 1) {
+      const via = members.map((member) => `"${member}" (${describeEnablePath(member, resolved)})`);
+      throw new FeatureConflictError(
+        `Features in exclusive group "${group}" cannot be enabled together: ${via.join(", ")}`,
+        group,
+        members,
+      );
+    }
+
+    if (members.length === 0 && mode === "exactly-one") {
+      throw new FeatureConflictError(
+        `Exactly one feature in group "${group}" must be enabled: ${features.join(", ")}`,
+        group,
+        members,
+      );
+    }
+  }
+}
+
+/**
+ * Throws if an enabled feature's `requires` or `requiredDeps` are not met.
+ * Dependencies are only checked when the manifest has dependency info.
+ */
+function checkRequirements(resolved: ResolvedFeatures): void {
+  const { manifest } = resolved;
+  const declared = manifest.dependencies ? getAllDependencyNames(manifest.dependencies) : null;
+  const { optionalDependencies = {}, ...required } = manifest.dependencies ?? {};
+  const nonOptional = getAllDependencyNames(required);
+
+  for (const [feature, meta] of manifest.metadata) {
+    if (!resolved.enabled.has(feature)) {
+      continue;
+    }
+
+    for (const requirement of meta.requires ?? []) {
+      if (!resolved.enabled.has(requirement)) {
+        throw new FeatureRequirementError(
+          `Feature "${feature}" (${describeEnablePath(feature, resolved)}) requires feature ` +
+            `"${requirement}", which is not enabled; enable "${requirement}" as well`,
+          feature,
+          requirement,
+          "feature",
+        );
+      }
+    }
+
+    if (!declared) {
+      continue;
+    }
+
+    for (const dep of meta.requiredDeps ?? []) {
+      if (!declared.has(dep)) {
+        throw new FeatureRequirementError(
+          `Feature "${feature}" requires dependency "${dep}", which is not declared; ` +
+            `add "${dep}" to the package's dependencies`,
+          feature,
+          dep,
+          "dependency",
+        );
+      }
+      const optional = Object.hasOwn(optionalDependencies, dep) && !nonOptional.has(dep);
+      if (optional && !resolved.activatedDependencies.has(dep)) {
+        throw new FeatureRequirementError(
+          `Feature "${feature}" requires optional dependency "${dep}", which no enabled ` +
+            `feature activates; add "dep:${dep}" to feature "${feature}"`,
+          feature,
+          dep,
+          "dependency",
+        );
+      }
+    }
+  }
 }
 
 /**
@@ -531,6 +1263,96 @@ export function getEnableChain(
   return chain.reverse();
 }
 
+/**
+ * Checks if an enabler is a root of the enable graph: a marker such as
+ * `<default>`, or a label from outside the manifest (e.g. `pkg:feature`).
+ */
+function isEnableRoot(enabler: string, resolved: ResolvedFeatures): boolean {
+  return enabler.startsWith("<") || !resolved.enabledBy.has(enabler);
+}
+
+/**
+ * Gets every path that caused a feature to be enabled. Unlike `getEnableChain`,
+ * this follows all enablers, not just the first.
+ *
+ * Each path starts at a root (`<default>`, `<explicit>`, `<all-features>`,
+ * `<target:name>`, `<profile:name>`, or the requesting `pkg:feature` in
+ * workspace resolution)
+ * and ends with the
+ * feature itself. Paths through cycles are cut at the repeated feature.
+ *
+ * @param feature - The feature to trace
+ * @param resolved - The resolved features
+ * @returns All enable paths, or null if not enabled
+ *
+ * @example
+ * getEnablePaths("fs", resolved)
+ * // [["<default>", "default", "std", "fs"], ["<explicit>", "full", "fs"]]
+ */
+export function getEnablePaths(
+  feature: string,
+  resolved: ResolvedFeatures,
+): string[][] | null {
+  if (!resolved.enabled.has(feature)) {
+    return null;
+  }
+
+  const paths: string[][] = [];
+
+  const walk = (path: string[]): void => {
+    for (const enabler of resolved.enabledBy.get(path[0]) ?? []) {
+      if (isEnableRoot(enabler, resolved)) {
+        paths.push([enabler, ...path]);
+      } else if (!path.includes(enabler)) {
+        walk([enabler, ...path]);
+      }
+    }
+  };
+
+  walk([feature]);
+  return paths;
+}
+
+/**
+ * Builds the inverted tree of everything that enabled a feature: each node's
+ * children are its enablers, and the leaves are roots such as `<default>`.
+ *
+ * @param feature - The feature to trace
+ * @param resolved - The resolved features
+ * @returns The tree rooted at the feature, or null if not enabled
+ */
+export function buildEnablerTree(
+  feature: string,
+  resolved: ResolvedFeatures,
+): FeatureTreeNode | null {
+  if (!resolved.enabled.has(feature)) {
+    return null;
+  }
+
+  const manifest = resolved.manifest;
+
+  const buildNode = (name: string, visited: Set<string>): FeatureTreeNode => {
+    const isImplicit = isImplicitFeature(manifest, name) || undefined;
+
+    if (visited.has(name)) {
+      return { name, children: [], isCircular: true, isImplicit };
+    }
+
+    const nextVisited = new Set(visited);
+    nextVisited.add(name);
+
+    const children = (resolved.enabledBy.get(name) ?? []).map((enabler) =>
+      isEnableRoot(enabler, resolved)
+        ? { name: enabler, children: [] }
+        : buildNode(enabler, nextVisited)
+    );
+
+    return { name, children, isImplicit };
+  };
+
+  return buildNode(feature, new Set());
+}
+
 /**
  * Lists all available features in the manifest.
  *
@@ -551,6 +1373,16 @@ export function listEnabledFeatures(resolved: ResolvedFeatures): string[] {
   return [...resolved.enabled].sort();
 }
 
+/**
+ * Lists all optional dependencies activated via `dep:` references.
+ *
+ * @param resolved - The resolved features
+ * @returns Sorted array of activated dependency names
+ */
+export function listActivatedDependencies(resolved: ResolvedFeatures): string[] {
+  return [...resolved.activatedDependencies.keys()].sort();
+}
+
 /**
  * Lists all disabled features (available but not enabled).
  *
@@ -641,27 +1473,41 @@ function getAllDependencyNames(deps: PackageDependencies): Set<string> {
   return names;
 }
 
+/**
+ * A problem with a single feature reference.
+ */
+interface ReferenceProblem {
+  readonly rule: "unknown-feature-ref" | "invalid-reference";
+  readonly message: string;
+}
+
 /**
  * Validates a feature reference (dependency within a feature's activation list).
  *
  * @param ref - The reference string to validate
  * @param featureName - The feature containing this reference
  * @param allFeatures - Set of all local feature names
- * @returns Error message if invalid, null if valid
+ * @returns The problem if invalid, null if valid
  */
 function validateFeatureReference(
   ref: string,
   featureName: string,
   allFeatures: Set<string>,
-): string | null {
+): ReferenceProblem | null {
+  const invalid = (message: string): ReferenceProblem => ({ rule: "invalid-reference", message });
+
   // dep: prefix for optional dependencies
   if (ref.startsWith("dep:")) {
     const depName = ref.slice(4);
     if (!depName || depName.length === 0) {
-      return `Feature "${featureName}" has invalid dep: reference "${ref}": missing package name`;
+      return invalid(
+        `Feature "${featureName}" has invalid dep: reference "${ref}": missing package name`,
+      );
     }
     if (!isValidPackageName(depName)) {
-      return `Feature "${featureName}" has invalid dep: reference "${ref}": "${depName}" is not a valid package name`;
+      return invalid(
+        `Feature "${featureName}" has invalid dep: reference "${ref}": "${depName}" is not a valid package name`,
+      );
     }
     return null; // Valid format (actual dep check is separate)
   }
@@ -672,23 +1518,34 @@ function validateFeatureReference(
     const feature = getDepFeature(ref);
 
     if (!pkg) {
-      return `Feature "${featureName}" has invalid external reference "${ref}": missing package name`;
+      return invalid(
+        `Feature "${featureName}" has invalid external reference "${ref}": missing package name`,
+      );
     }
     if (!feature) {
-      return `Feature "${featureName}" has invalid external reference "${ref}": missing feature name`;
+      return invalid(
+        `Feature "${featureName}" has invalid external reference "${ref}": missing feature name`,
+      );
     }
     if (!isValidPackageName(pkg)) {
-      return `Feature "${featureName}" has invalid external reference "${ref}": "${pkg}" is not a valid package name`;
+      return invalid(
+        `Feature "${featureName}" has invalid external reference "${ref}": "${pkg}" is not a valid package name`,
+      );
     }
     if (!isValidFeatureId(feature)) {
-      return `Feature "${featureName}" has invalid external reference "${ref}": "${feature}" is not a valid feature name (must be kebab-case)`;
+      return invalid(
+        `Feature "${featureName}" has invalid external reference "${ref}": "${feature}" is not a valid feature name (must be kebab-case)`,
+      );
     }
     return null; // Valid format
   }
 
   // Local feature reference
   if (!allFeatures.has(ref)) {
-    return `Feature "${featureName}" references unknown feature "${ref}"`;
+    return {
+      rule: "unknown-feature-ref",
+      message: `Feature "${featureName}" references unknown feature "${ref}"`,
+    };
   }
 
   return null;
@@ -697,47 +1554,209 @@ function validateFeatureReference(
 /**
  * Validates a feature manifest.
  *
+ * Every problem is reported as a `ManifestDiagnostic` with a stable code
+ * (see `DIAGNOSTIC_CODES`) and, for manifests loaded from a file, the line
+ * and column of the offending entry. `errors` and `warnings` carry the same
+ * messages as plain strings.
+ *
+ * Each rule's level (off, warn or error) comes from `options.rules`, then
+ * `metadata.ftFlags.lint` in the manifest, then `DEFAULT_LINT_LEVELS`.
+ *
  * @param manifest - The manifest to validate
  * @param options - Optional validation options
- * @returns Validation result with errors and warnings
+ * @returns Validation result with errors, warnings and diagnostics
  */
 export function validateManifest(
   manifest: FeatureManifest,
   options?: ValidateOptions,
 ): ManifestValidation {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+  const diagnostics: ManifestDiagnostic[] = [];
+  const configuredLevels = manifest.settings?.lint ?? {};
+
+  const levelOf = (rule: DiagnosticRule): LintLevel => {
+    const configured = configuredLevels[rule];
+    return options?.rules?.[rule] ??
+      (rule === "unknown-dependency" && options?.strictDependencies ? "error" : undefined) ??
+      (configured && isLintLevel(configured) ? configured : undefined) ??
+      DEFAULT_LINT_LEVELS[rule];
+  };
+
+  const report = (
+    rule: DiagnosticRule,
+    message: string,
+    at: {
+      feature?: string;
+      reference?: string;
+      pointer: readonly (string | number)[];
+    },
+  ): void => {
+    const level = levelOf(rule);
+    if (level === "off") {
+      return;
+    }
+    diagnostics.push({
+      code: DIAGNOSTIC_CODES[rule],
+      rule,
+      severity: level === "error" ? "error" : "warning",
+      message,
+      feature: at.feature,
+      reference: at.reference,
+      location: manifest.locations?.get(jsonPointer(at.pointer)),
+    });
+  };
+
+  // Validate the lint config itself
+  for (const [rule, level] of Object.entries(configuredLevels)) {
+    const pointer = ["metadata", "ftFlags", "lint", rule];
+    if (!Object.hasOwn(DIAGNOSTIC_CODES, rule)) {
+      report("invalid-lint-config", `Unknown lint rule "${rule}"`, { pointer });
+    } else if (!isLintLevel(level)) {
+      report(
+        "invalid-lint-config",
+        `Invalid level "${level}" for lint rule "${rule}" (expected off, warn or error)`,
+        { pointer },
+      );
+    }
+  }
 
   const allFeatures = new Set(manifest.features.keys());
   const availableDeps = options?.dependencies ? getAllDependencyNames(options.dependencies) : null;
 
   // Validate each feature
   for (const [name, deps] of manifest.features) {
+    const pointer = ["features", name];
+
     // Validate feature name format
     if (!isValidFeatureIdOrDefault(name)) {
-      errors.push(
+      report(
+        "invalid-feature-name",
         `Invalid feature name "${name}": must be kebab-case (e.g., 'async-runtime')`,
+        { feature: name, pointer },
       );
     }
 
     // Check for self-reference
-    if (deps.includes(name)) {
-      errors.push(`Feature "${name}" references itself`);
+    const selfIndex = deps.indexOf(name);
+    if (selfIndex !== -1) {
+      report("self-reference", `Feature "${name}" references itself`, {
+        feature: name,
+        reference: name,
+        pointer: [...pointer, selfIndex],
+      });
     }
 
     // Validate each dependency reference
-    for (const dep of deps) {
-      const refError = validateFeatureReference(dep, name, allFeatures);
-      if (refError) {
-        errors.push(refError);
+    deps.forEach((dep, index) => {
+      const problem = validateFeatureReference(dep, name, allFeatures);
+      if (problem) {
+        report(problem.rule, problem.message, {
+          feature: name,
+          reference: dep,
+          pointer: [...pointer, index],
+        });
       }
-    }
+    });
   }
 
   // Check for circular dependencies
   const cycles = detectCycles(manifest);
   for (const cycle of cycles) {
-    errors.push(`Circular dependency detected: ${cycle.join(" -> ")}`);
+    report(
+      "circular-dependency",
+      `Circular dependency detected: ${cycle.join(" -> ")}`,
+      { feature: cycle[0], pointer: ["features", cycle[0]] },
+    );
+  }
+
+  // Check for internal features that nothing public can enable
+  for (const name of findUnreachableFeatures(manifest)) {
+    report(
+      "unreachable-feature",
+      `Feature "${name}" is internal and not reachable from "default" or any public feature`,
+      { feature: name, pointer: ["features", name] },
+    );
+  }
+
+  // Check for duplicate and redundant entries within each list
+  for (const [name, deps] of manifest.features) {
+    deps.forEach((dep, index) => {
+      const pointer = ["features", name, index];
+
+      if (deps.indexOf(dep) !== index) {
+        report(
+          "duplicate-entry",
+          `Feature "${name}" lists "${dep}" more than once`,
+          { feature: name, reference: dep, pointer },
+        );
+        return;
+      }
+
+      const enabler = deps.find((sibling) =>
+        sibling !== dep &&
+        transitiveEntries(manifest, sibling).has(dep) &&
+        // Features in a cycle enable each other; neither is redundant
+        !(manifest.features.has(dep) && transitiveEntries(manifest, dep).has(sibling))
+      );
+      if (enabler) {
+        report(
+          "redundant-entry",
+          `Feature "${name}" lists "${dep}", which is already enabled by "${enabler}"`,
+          { feature: name, reference: dep, pointer },
+        );
+      }
+    });
+  }
+
+  // Check exclusive groups, then features that enable more than one member
+  for (const [group, definition] of Object.entries(manifest.settings?.exclusiveGroups ?? {})) {
+    const pointer = ["metadata", "ftFlags", "exclusiveGroups", group];
+    const members = Array.isArray(definition?.features) ? definition.features : [];
+
+    if (members.length < 2) {
+      report(
+        "invalid-exclusive-group",
+        `Exclusive group "${group}" must list at least two features`,
+        { pointer },
+      );
+    }
+    if (definition?.mode !== undefined && !isExclusiveMode(definition.mode)) {
+      report(
+        "invalid-exclusive-group",
+        `Invalid mode "${definition.mode}" for exclusive group "${group}" (expected at-most-one or exactly-one)`,
+        { pointer: [...pointer, "mode"] },
+      );
+    }
+    members.forEach((member, index) => {
+      if (!allFeatures.has(member)) {
+        report(
+          "invalid-exclusive-group",
+          `Exclusive group "${group}" references unknown feature "${member}"`,
+          { reference: member, pointer: [...pointer, "features", index] },
+        );
+      }
+    });
+
+    const conflictsOf = (feature: string): string[] => {
+      const entries = transitiveEntries(manifest, feature);
+      return members.filter((m) => m === feature || entries.has(m));
+    };
+
+    for (const [name, deps] of manifest.features) {
+      const conflicts = conflictsOf(name);
+      // Report only where the conflict starts, not every feature that inherits it
+      const inherited = deps.some((dep) =>
+        manifest.features.has(dep) && dep !== name && conflictsOf(dep).length > 1
+      );
+      if (conflicts.length > 1 && !inherited) {
+        report(
+          "exclusive-conflict",
+          `Feature "${name}" enables mutually exclusive features ${
+            conflicts.map((c) => `"${c}"`).join(", ")
+          } (group "${group}")`,
+          { feature: name, pointer: ["features", name] },
+        );
+      }
+    }
   }
 
   // Validate external references against actual dependencies if provided
@@ -745,13 +1764,16 @@ export function validateManifest(
     const externalRefs = extractExternalReferences(manifest);
     for (const ref of externalRefs) {
       if (!availableDeps.has(ref.packageName)) {
-        const message =
-          `Feature "${ref.feature}" references non-existent dependency "${ref.packageName}" via "${ref.reference}"`;
-        if (options?.strictDependencies) {
-          errors.push(message);
-        } else {
-          warnings.push(message);
-        }
+        const index = manifest.features.get(ref.feature)?.indexOf(ref.reference) ?? -1;
+        report(
+          "unknown-dependency",
+          `Feature "${ref.feature}" references non-existent dependency "${ref.packageName}" via "${ref.reference}"`,
+          {
+            feature: ref.feature,
+            reference: ref.reference,
+            pointer: ["features", ref.feature, index],
+          },
+        );
       }
     }
   }
@@ -759,41 +1781,232 @@ export function validateManifest(
   // Validate metadata references
   for (const name of manifest.metadata.keys()) {
     if (!allFeatures.has(name)) {
-      warnings.push(`Metadata defined for unknown feature "${name}"`);
+      report(
+        "unknown-metadata-feature",
+        `Metadata defined for unknown feature "${name}"`,
+        { feature: name, pointer: ["metadata", "features", name] },
+      );
+    }
+  }
+
+  // Check target conditions and target defaults
+  for (const [name, meta] of manifest.metadata) {
+    if (meta.when === undefined) {
+      continue;
+    }
+    const at = { feature: name, pointer: ["metadata", "features", name, "when"] };
+    try {
+      const features = cfgFeatures(parseCfg(meta.when));
+      if (features.length > 0) {
+        report(
+          "invalid-target-config",
+          `Condition for feature "${name}" can only test target(...), not feature("${
+            features[0]
+          }")`,
+          at,
+        );
+      }
+    } catch (error) {
+      report(
+        "invalid-target-config",
+        `Invalid condition for feature "${name}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        at,
+      );
+    }
+  }
+  for (const [target, features] of Object.entries(manifest.settings?.targetDefaults ?? {})) {
+    features.forEach((feature, index) => {
+      if (!allFeatures.has(feature)) {
+        report(
+          "invalid-target-config",
+          `Default features for target "${target}" reference unknown feature "${feature}"`,
+          {
+            reference: feature,
+            pointer: ["metadata", "ftFlags", "targetDefaults", target, index],
+          },
+        );
+      }
+    });
+  }
+
+  // Check profiles
+  const profiles = manifest.settings?.profiles ?? {};
+  for (const [name, profile] of Object.entries(profiles)) {
+    const pointer = ["metadata", "ftFlags", "profiles", name];
+
+    (profile.features ?? []).forEach((feature, index) => {
+      if (!allFeatures.has(feature)) {
+        report(
+          "invalid-profile",
+          `Profile "${name}" references unknown feature "${feature}"`,
+          { reference: feature, pointer: [...pointer, "features", index] },
+        );
+      }
+    });
+
+    const parents = typeof profile.extends === "string" ? [profile.extends] : profile.extends ?? [];
+    const unknown = parents.filter((parent) => !Object.hasOwn(profiles, parent));
+    for (const parent of unknown) {
+      report("invalid-profile", `Profile "${name}" extends unknown profile "${parent}"`, {
+        reference: parent,
+        pointer: [...pointer, "extends"],
+      });
+    }
+    if (unknown.length > 0) {
+      continue;
+    }
+
+    // Unknown profiles further up are reported where they are referenced
+    try {
+      expandProfile(manifest, name);
+    } catch (error) {
+      if (error instanceof ProfileCycleError) {
+        report("invalid-profile", error.message, { pointer: [...pointer, "extends"] });
+      }
+    }
+  }
+
+  // Check requirements declared in metadata
+  for (const [name, meta] of manifest.metadata) {
+    const pointer = ["metadata", "features", name];
+
+    (meta.requires ?? []).forEach((requirement, index) => {
+      const at = {
+        feature: name,
+        reference: requirement,
+        pointer: [...pointer, "requires", index],
+      };
+      if (requirement === name) {
+        report("invalid-requirement", `Feature "${name}" requires itself`, at);
+      } else if (!allFeatures.has(requirement)) {
+        report(
+          "invalid-requirement",
+          `Feature "${name}" requires unknown feature "${requirement}"`,
+          at,
+        );
+      }
+    });
+
+    if (availableDeps) {
+      (meta.requiredDeps ?? []).forEach((dep, index) => {
+        if (!availableDeps.has(dep)) {
+          report(
+            "unknown-required-dep",
+            `Feature "${name}" requires dependency "${dep}", which is not declared`,
+            { feature: name, reference: dep, pointer: [...pointer, "requiredDeps", index] },
+          );
+        }
+      });
     }
   }
 
   // Check for deprecated features without messages
   for (const [name, meta] of manifest.metadata) {
     if (meta.deprecated && !meta.deprecatedMessage) {
-      warnings.push(
+      report(
+        "deprecated-without-message",
         `Feature "${name}" is marked deprecated but has no deprecation message`,
+        { feature: name, pointer: ["metadata", "features", name, "deprecated"] },
       );
     }
   }
 
   // Warn if no default feature
   if (!manifest.features.has("default")) {
-    warnings.push(
+    report(
+      "missing-default",
       'No "default" feature defined. Consider adding one for conventional usage.',
+      { pointer: ["features"] },
     );
   }
 
   // Warn about empty default
   const defaultDeps = manifest.features.get("default");
   if (defaultDeps && defaultDeps.length === 0) {
-    warnings.push(
+    report(
+      "empty-default",
       'The "default" feature enables no other features. Consider adding features to it.',
+      { feature: "default", pointer: ["features", "default"] },
     );
   }
 
+  // Warn about features defined in more than one config file
+  for (const shadowed of manifest.shadowedSources ?? []) {
+    report(
+      "multiple-manifests",
+      `Features are also defined in ${shadowed.path}, which is ignored because ${manifest.source?.path} takes precedence`,
+      { pointer: ["features"] },
+    );
+  }
+
+  const errors = diagnostics.filter((d) => d.severity === "error").map((d) => d.message);
+  const warnings = diagnostics.filter((d) => d.severity === "warning").map((d) => d.message);
+
   return {
     valid: errors.length === 0,
     errors,
     warnings,
+    diagnostics,
   };
 }
 
+/**
+ * Collects every entry a feature enables, directly or through other local
+ * features. Includes `dep:` and `pkg:feature` entries; excludes the feature
+ * itself unless it is part of a cycle.
+ */
+function transitiveEntries(manifest: FeatureManifest, feature: string): Set<string> {
+  const entries = new Set<string>();
+  const stack = [...(manifest.features.get(feature) ?? [])];
+
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    if (entries.has(entry)) {
+      continue;
+    }
+    entries.add(entry);
+    stack.push(...(manifest.features.get(entry) ?? []));
+  }
+
+  return entries;
+}
+
+/**
+ * Finds internal features (`metadata.features.<name>.internal`) that cannot be
+ * enabled through "default" or any public feature.
+ */
+function findUnreachableFeatures(manifest: FeatureManifest): string[] {
+  const isInternal = (name: string): boolean => manifest.metadata.get(name)?.internal ?? false;
+
+  const reachable = new Set<string>();
+  for (const name of manifest.features.keys()) {
+    if (name === "default" || !isInternal(name)) {
+      reachable.add(name);
+      for (const entry of transitiveEntries(manifest, name)) {
+        reachable.add(entry);
+      }
+    }
+  }
+
+  return [...manifest.features.keys()].filter((name) => !reachable.has(name));
+}
+
+/**
+ * Checks if a value is a valid exclusive group mode.
+ */
+function isExclusiveMode(value: unknown): value is ExclusiveMode {
+  return value === "at-most-one" || value === "exactly-one";
+}
+
+/**
+ * Checks if a value is a valid lint level.
+ */
+function isLintLevel(value: unknown): value is LintLevel {
+  return value === "off" || value === "warn" || value === "error";
+}
+
 /**
  * Validates a feature name (used for feature declarations, not references).
  * - "default" is always valid (special case)
@@ -927,6 +2140,7 @@ export interface FeatureTreeNode {
   readonly name: string;
   readonly children: readonly FeatureTreeNode[];
   readonly isCircular?: boolean;
+  readonly isImplicit?: boolean;
 }
 
 /**
@@ -941,11 +2155,14 @@ export function buildFeatureTree(
   root?: string,
 ): FeatureTreeNode[] {
   const buildNode = (name: string, visited: Set<string>): FeatureTreeNode => {
+    const isImplicit = isImplicitFeature(manifest, name) || undefined;
+
     if (visited.has(name)) {
       return {
         name,
         children: [],
         isCircular: true,
+        isImplicit,
       };
     }
 
@@ -963,6 +2180,7 @@ export function buildFeatureTree(
     return {
       name,
       children,
+      isImplicit,
     };
   };
 
@@ -1013,6 +2231,9 @@ export function renderFeatureTree(
     const childIndent = isLast ? "    " : "|   ";
 
     let line = indent + prefix + node.name;
+    if (node.isImplicit) {
+      line += " (implicit)";
+    }
     if (node.isCircular) {
       line += " (circular)";
     }
@@ -1046,6 +2267,148 @@ export function toFeatureIdSet(resolved: ResolvedFeatures): Set<FeatureId> {
   return ids;
 }
 
+/**
+ * Maps manifest metadata to registry feature metadata. Fields that are not set
+ * in the manifest are left out.
+ */
+function toFeatureMetadata(meta: FeatureManifestMetadata | undefined): FeatureMetadata | undefined {
+  if (!meta) {
+    return undefined;
+  }
+  const fields = {
+    description: meta.description,
+    experimental: meta.unstable,
+    deprecated: meta.deprecated,
+    deprecationMessage: meta.deprecatedMessage,
+    since: meta.since,
+  };
+  const metadata = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  );
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+/**
+ * Derives the registry state of an enabled feature from what enabled it. A
+ * selection (the defaults, explicit or profile features, `allFeatures`) takes
+ * precedence; otherwise the feature is implied by the first local feature
+ * that enabled it.
+ */
+function enabledState(
+  feature: string,
+  resolved: ResolvedFeatures,
+  source: ConfigSource,
+): FeatureState {
+  const enablers = resolved.enabledBy.get(feature) ?? [];
+
+  if (enablers.includes("<all-features>")) {
+    return { enabled: true, reason: "enable-all", source };
+  }
+  if (enablers.some((by) => by === "<explicit>" || by.startsWith("<profile:"))) {
+    return { enabled: true, reason: "explicit-enabled", source };
+  }
+  if (enablers.some((by) => by === "<default>" || by.startsWith("<target:"))) {
+    return { enabled: true, reason: "default-enabled", source };
+  }
+
+  const implier = enablers.find((by) => resolved.manifest.features.has(by) && isValidFeatureId(by));
+  if (implier !== undefined) {
+    return { enabled: true, reason: "implied-by", impliedBy: featureId(implier), source };
+  }
+  // Enabled from outside the manifest, e.g. by a dependent package
+  return { enabled: true, reason: "explicit-enabled", source };
+}
+
+/**
+ * Creates a feature registry from a manifest, for use with the registry API.
+ *
+ * Every feature of the manifest becomes a feature definition, with its
+ * description, `unstable` (as `experimental`), deprecation and `since`
+ * metadata, and the local features it enables as `implies`. Only "default"
+ * (and the target's `targetDefaults`) are enabled by default; the features
+ * they enable are implied.
+ *
+ * The manifest is resolved with `options`, and each state's reason is derived
+ * from what enabled the feature: the defaults, an explicit or profile
+ * selection, `allFeatures`, or another feature ("implied-by"). Defaults left
+ * off with `noDefaultFeatures` are "explicit-disabled". The registry's config
+ * records the selection, so `setFeatureState` re-applies implications on top
+ * of it.
+ *
+ * Features whose names are not valid feature IDs are skipped, like in
+ * `toFeatureIdSet`.
+ *
+ * @typeParam TFeatures - Names of the manifest's features, e.g. the
+ *   `FeatureName` type generated by `ft codegen`
+ * @param manifest - The manifest to create the registry from
+ * @param options - Options for resolving the enabled features
+ * @returns A registry whose source is the manifest's config file
+ * @throws FeatureFlagError if resolution fails (see `resolveFeatures`)
+ *
+ * @example
+ * ```ts
+ * const manifest = await loadManifestFromDenoJson("./deno.json");
+ * if (!manifest) throw new Error("No features config in deno.json");
+ *
+ * const registry = createRegistryFromManifest(manifest, { features: ["full"] });
+ *
+ * getFeatureState(registry, "full")?.reason; // "explicit-enabled"
+ * getFeatureState(registry, "fs"); // { reason: "implied-by", impliedBy: "std", ... }
+ * ```
+ */
+export function createRegistryFromManifest<TFeatures extends string = string>(
+  manifest: FeatureManifest,
+  options: ResolveOptions = {},
+): FeatureRegistry<TFeatures> {
+  const resolved = resolveFeatures(manifest, options);
+  const allTargetDefaults = manifest.settings?.targetDefaults ?? {};
+  const targetDefaults =
+    resolved.target !== undefined && Object.hasOwn(allTargetDefaults, resolved.target)
+      ? allTargetDefaults[resolved.target]
+      : [];
+
+  const definitions: FeatureDefinitionInput[] = [];
+  for (const [name, entries] of manifest.features) {
+    if (!isValidFeatureId(name)) {
+      continue;
+    }
+    const meta = manifest.metadata.get(name);
+    definitions.push({
+      id: name,
+      description: meta?.description,
+      defaultEnabled: name === "default" || targetDefaults.includes(name),
+      implies: entries.filter((entry) => manifest.features.has(entry) && isValidFeatureId(entry)),
+      metadata: toFeatureMetadata(meta),
+    });
+  }
+  const schema = buildSchema(definitions) as FeatureSchema<TFeatures>;
+
+  const source: ConfigSource = manifest.source?.path !== undefined &&
+      manifest.source.type !== "inline"
+    ? { type: manifest.source.type, path: manifest.source.path }
+    : { type: "programmatic" };
+
+  const states = new Map<TypedFeatureId<TFeatures>, FeatureState>();
+  for (const [id, definition] of schema.features) {
+    states.set(
+      id,
+      resolved.enabled.has(id) ? enabledState(id, resolved, source) : {
+        enabled: false,
+        reason: definition.defaultEnabled ? "explicit-disabled" : "default-disabled",
+        source,
+      },
+    );
+  }
+
+  const withReason = (reason: FeatureStateReason): string[] =>
+    [...states].filter(([, state]) => state.reason === reason).map(([id]) => id);
+  const config: FeatureConfig = withReason("enable-all").length > 0
+    ? { enableAll: true }
+    : { enabled: withReason("explicit-enabled"), disabled: withReason("explicit-disabled") };
+
+  return { schema, states, config: { config, source } };
+}
+
 /**
  * Creates a manifest from resolved features (for serialization).
  *
@@ -1057,6 +2420,10 @@ export function toRawConfig(manifest: FeatureManifest): RawFtFlagsConfig {
   const metadata: Record<string, FeatureManifestMetadata> = {};
 
   for (const [name, deps] of manifest.features) {
+    // Implicit features are recreated from the settings when parsed again
+    if (isImplicitFeature(manifest, name)) {
+      continue;
+    }
     features[name] = [...deps];
   }
 
@@ -1065,7 +2432,9 @@ export function toRawConfig(manifest: FeatureManifest): RawFtFlagsConfig {
   }
 
   return {
+    name: manifest.name,
     features,
     metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    ftFlags: manifest.settings ? { ...manifest.settings } : undefined,
   };
 }
@@ -0,0 +1,405 @@
+/**
+ * @module matrix
+ * Feature combination matrices, in the spirit of `cargo hack --feature-powerset`.
+ *
+ * Combinations are built from "units": single features, or groups of features
+ * that are always enabled together. Combinations that resolve to the same set
+ * of enabled features are de-duplicated, keeping the smallest. Combinations
+ * that break an exclusive feature group or a feature's requirements are left out.
+ *
+ * `runCombinations` runs a command once per combination, in the spirit of
+ * `cargo hack`, selecting features through the `FT_*` environment variables.
+ *
+ * @example
+ * ```ts
+ * const combinations = featureMatrix(manifest, { depth: 2, exclude: ["nightly"] });
+ * for (const c of combinations) {
+ *   console.log(c.noDefaultFeatures, c.features);
+ * }
+ * ```
+ */
+
+import { type FeatureManifest, isImplicitFeature, resolveFeatures } from "./manifest.ts";
+import { FeatureConflictError, FeatureFlagError, FeatureRequirementError } from "./types.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How combinations are enumerated.
+ * - `powerset`: every subset of units (up to `depth` units)
+ * - `each-feature`: no units, then every unit alone
+ */
+export type MatrixMode = "powerset" | "each-feature";
+
+/**
+ * Options for building a feature matrix.
+ */
+export interface MatrixOptions {
+  /** How combinations are enumerated (default: "powerset") */
+  readonly mode?: MatrixMode;
+
+  /** Maximum number of units per combination, for `powerset` (default: unlimited) */
+  readonly depth?: number;
+
+  /** Features never selected directly (they may still be enabled by others) */
+  readonly exclude?: readonly string[];
+
+  /** Features that are always selected together, as one unit */
+  readonly groups?: readonly (readonly string[])[];
+
+  /**
+   * If true, every combination is resolved on top of the default features.
+   * If false (default), combinations use `noDefaultFeatures` and `default`
+   * itself is one of the units (selected by keeping defaults on).
+   */
+  readonly includeDefault?: boolean;
+
+  /**
+   * Maximum number of combinations to enumerate before de-duplication
+   * (default: 10000). Exceeding it throws rather than running for hours.
+   */
+  readonly limit?: number;
+}
+
+/**
+ * A single feature selection in the matrix.
+ */
+export interface FeatureCombination {
+  /** Features to select (as with `--features`) */
+  readonly features: readonly string[];
+  /** Whether defaults are disabled (as with `--no-default-features`) */
+  readonly noDefaultFeatures: boolean;
+  /** The features this selection resolves to (sorted) */
+  readonly enabled: readonly string[];
+}
+
+/**
+ * Default for `MatrixOptions.limit`.
+ */
+export const DEFAULT_MATRIX_LIMIT = 10_000;
+
+// =============================================================================
+// Enumeration
+// =============================================================================
+
+/**
+ * Number of ways to choose up to `depth` of `n` units.
+ */
+function countSubsets(n: number, depth: number): number {
+  let total = 0;
+  let choose = 1; // C(n, 0)
+  for (let k = 0; k <= Math.min(n, depth); k++) {
+    total += choose;
+    choose = (choose * (n - k)) / (k + 1);
+  }
+  return total;
+}
+
+/**
+ * Enumerates subsets of `units` with at most `depth` members, smallest first.
+ */
+function subsetsUpTo<T>(units: readonly T[], depth: number): T[][] {
+  const result: T[][] = [[]];
+  let layer: { subset: T[]; next: number }[] = [{ subset: [], next: 0 }];
+
+  for (let size = 1; size <= Math.min(units.length, depth); size++) {
+    const nextLayer: { subset: T[]; next: number }[] = [];
+    for (const { subset, next } of layer) {
+      for (let i = next; i < units.length; i++) {
+        const extended = [...subset, units[i]];
+        result.push(extended);
+        nextLayer.push({ subset: extended, next: i + 1 });
+      }
+    }
+    layer = nextLayer;
+  }
+
+  return result;
+}
+
+/**
+ * Builds the units to combine: `default` (when defaults are off), then groups,
+ * then remaining features (sorted). Implicit and excluded features are skipped.
+ */
+function buildUnits(manifest: FeatureManifest, options: MatrixOptions): string[][] {
+  const exclude = new Set(options.exclude ?? []);
+  const groups = options.groups ?? [];
+
+  const check = (feature: string, where: string): void => {
+    if (!manifest.features.has(feature)) {
+      throw new FeatureFlagError(`Unknown feature "${feature}" in matrix ${where}`);
+    }
+  };
+  exclude.forEach((f) => check(f, "exclude"));
+
+  const grouped = new Set<string>();
+  for (const group of groups) {
+    for (const feature of group) {
+      check(feature, "group");
+      if (grouped.has(feature)) {
+        throw new FeatureFlagError(`Feature "${feature}" is in more than one matrix group`);
+      }
+      grouped.add(feature);
+    }
+  }
+
+  const units = groups
+    .map((group) => group.filter((f) => !exclude.has(f)))
+    .filter((group) => group.length > 0);
+
+  const singles = [...manifest.features.keys()]
+    .filter((f) =>
+      f !== "default" && !isImplicitFeature(manifest, f) && !exclude.has(f) && !grouped.has(f)
+    )
+    .sort();
+
+  // Without defaults, "default" is a unit so the default selection is covered
+  if (!options.includeDefault && manifest.features.has("default") && !exclude.has("default")) {
+    units.unshift(["default"]);
+  }
+
+  return [...units, ...singles.map((f) => [f])];
+}
+
+/**
+ * Resolves a single combination from a list of selected features.
+ * Selecting `default` keeps the default features on; otherwise they are off
+ * unless `includeDefault` is set.
+ *
+ * @param manifest - The feature manifest
+ * @param selected - Features to select, possibly including "default"
+ * @param includeDefault - Whether defaults are always on
+ * @returns The combination and the features it resolves to
+ * @throws FeatureFlagError if a selected feature is not in the manifest
+ * @throws FeatureConflictError if the selection breaks an exclusive group
+ * @throws FeatureRequirementError if a selected feature's requirements are not met
+ */
+export function featureCombination(
+  manifest: FeatureManifest,
+  selected: readonly string[],
+  includeDefault: boolean = false,
+): FeatureCombination {
+  for (const feature of selected) {
+    if (!manifest.features.has(feature)) {
+      throw new FeatureFlagError(`Unknown feature "${feature}" in combination`);
+    }
+  }
+
+  const features = selected.filter((f) => f !== "default");
+  const noDefaultFeatures = !includeDefault && features.length === selected.length;
+
+  const resolved = resolveFeatures(manifest, { features, noDefaultFeatures });
+  return { features, noDefaultFeatures, enabled: [...resolved.enabled].sort() };
+}
+
+/**
+ * Environment variables that select a combination in a child process, as
+ * read by the `ft` CLI (`FT_FEATURES`, `FT_NO_DEFAULT_FEATURES`, `FT_ALL_FEATURES`).
+ * Combinations are resolved without a target or profile, so those are cleared.
+ *
+ * @param combination - The combination to select
+ * @returns Variables to add to the child's environment
+ */
+export function combinationEnv(combination: FeatureCombination): Record<string, string> {
+  return {
+    FT_FEATURES: combination.features.join(","),
+    FT_NO_DEFAULT_FEATURES: String(combination.noDefaultFeatures),
+    // Don't let inherited settings override the selection
+    FT_ALL_FEATURES: "false",
+    FT_PROFILE: "",
+    FT_TARGET: "",
+  };
+}
+
+/**
+ * Enumerates feature combinations from a manifest and de-duplicates those
+ * that resolve to the same set of enabled features.
+ *
+ * @param manifest - The feature manifest
+ * @param options - Enumeration options
+ * @returns Distinct valid combinations, smallest selections first
+ * @throws FeatureFlagError if options name unknown features or the matrix exceeds `limit`
+ */
+export function featureMatrix(
+  manifest: FeatureManifest,
+  options: MatrixOptions = {},
+): FeatureCombination[] {
+  const units = buildUnits(manifest, options);
+  const mode = options.mode ?? "powerset";
+  const depth = mode === "each-feature" ? 1 : options.depth ?? units.length;
+  const limit = options.limit ?? DEFAULT_MATRIX_LIMIT;
+
+  const count = countSubsets(units.length, depth);
+  if (count > limit) {
+    throw new FeatureFlagError(
+      `Feature matrix has ${count} combinations (limit ${limit}); ` +
+        `use a smaller depth, exclude features or group them`,
+    );
+  }
+
+  const seen = new Set<string>();
+  const combinations: FeatureCombination[] = [];
+
+  for (const subset of subsetsUpTo(units, depth)) {
+    let combination: FeatureCombination;
+    try {
+      combination = featureCombination(manifest, subset.flat(), options.includeDefault);
+    } catch (error) {
+      if (error instanceof FeatureConflictError || error instanceof FeatureRequirementError) {
+        continue;
+      }
+      throw error;
+    }
+
+    const key = combination.enabled.join(",");
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    combinations.push(combination);
+  }
+
+  return combinations;
+}
+
+/**
+ * Formats a combination as CLI flags, e.g. `--no-default-features --features a,b`.
+ */
+export function formatCombination(combination: FeatureCombination): string {
+  const parts: string[] = [];
+  if (combination.noDefaultFeatures) {
+    parts.push("--no-default-features");
+  }
+  if (combination.features.length > 0) {
+    parts.push(`--features ${combination.features.join(",")}`);
+  }
+  return parts.join(" ");
+}
+
+// =============================================================================
+// Running
+// =============================================================================
+
+/**
+ * Outcome of running a command for one combination.
+ * - `passed`: the command exited with code 0
+ * - `failed`: the command exited with a non-zero code
+ * - `skipped`: not run because an earlier combination failed
+ */
+export type RunStatus = "passed" | "failed" | "skipped";
+
+/**
+ * Result of running a command for one combination.
+ */
+export interface CombinationRun {
+  readonly combination: FeatureCombination;
+  readonly status: RunStatus;
+  /** Exit code, or null if skipped */
+  readonly code: number | null;
+  /** Wall-clock duration in milliseconds, or null if skipped */
+  readonly durationMs: number | null;
+}
+
+/**
+ * Options for running a command over combinations.
+ */
+export interface RunOptions {
+  /** Keep running after a combination fails (default: stop at the first failure) */
+  readonly keepGoing?: boolean;
+
+  /**
+   * Where the command's stdout goes (default: "inherit"). Use "stderr" to keep
+   * stdout free for machine-readable output.
+   */
+  readonly stdout?: "inherit" | "stderr";
+
+  /** Called before each combination is run */
+  readonly onStart?: (combination: FeatureCombination, index: number) => void;
+
+  /** Called after each combination has run */
+  readonly onFinish?: (run: CombinationRun, index: number) => void;
+}
+
+/**
+ * Runs a command once for a combination, selecting it through the environment
+ * (see {@link combinationEnv}).
+ */
+async function runCombination(
+  command: readonly string[],
+  combination: FeatureCombination,
+  options: RunOptions,
+): Promise<CombinationRun> {
+  const [program, ...args] = command;
+  const redirect = options.stdout === "stderr";
+  const start = performance.now();
+
+  let child: Deno.ChildProcess;
+  try {
+    child = new Deno.Command(program, {
+      args,
+      env: combinationEnv(combination),
+      stdin: "null",
+      stdout: redirect ? "piped" : "inherit",
+      stderr: "inherit",
+    }).spawn();
+  } catch (error) {
+    throw new FeatureFlagError(
+      `Failed to run "${program}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (redirect) {
+    await child.stdout.pipeTo(Deno.stderr.writable, { preventClose: true });
+  }
+  const { code } = await child.status;
+
+  return {
+    combination,
+    status: code === 0 ? "passed" : "failed",
+    code,
+    durationMs: Math.round(performance.now() - start),
+  };
+}
+
+/**
+ * Runs a command once per combination, one at a time, in the style of
+ * `cargo hack`. Each run sees the combination in `FT_FEATURES` and
+ * `FT_NO_DEFAULT_FEATURES`; the rest of the environment is inherited.
+ *
+ * @param command - Program and arguments, e.g. `["deno", "test"]`
+ * @param combinations - Combinations to run, in order
+ * @param options - Run options
+ * @returns One result per combination; after a failure the rest are skipped
+ *   unless `keepGoing` is set
+ * @throws FeatureFlagError if the command is empty or cannot be started
+ */
+export async function runCombinations(
+  command: readonly string[],
+  combinations: readonly FeatureCombination[],
+  options: RunOptions = {},
+): Promise<CombinationRun[]> {
+  if (command.length === 0) {
+    throw new FeatureFlagError("No command to run");
+  }
+
+  const runs: CombinationRun[] = [];
+
+  // Chained so runs never overlap: they typically share files and ports
+  await combinations.reduce<Promise<void>>(async (previous, combination, index) => {
+    await previous;
+
+    const stop = !options.keepGoing && runs.some((r) => r.status === "failed");
+    if (stop) {
+      runs.push({ combination, status: "skipped", code: null, durationMs: null });
+      return;
+    }
+    options.onStart?.(combination, index);
+    const run = await runCombination(command, combination, options);
+    runs.push(run);
+    options.onFinish?.(run, index);
+  }, Promise.resolve());
+
+  return runs;
+}
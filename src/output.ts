@@ -0,0 +1,579 @@
+/**
+ * @module output
+ * Machine-readable output documents for the CLI (`--format json|ndjson`).
+ *
+ * Every document carries `version` (bumped on breaking shape changes) and
+ * `command`. The shapes are published as a JSON Schema in `output.schema.json`.
+ */
+
+import { type CfgEvaluation, formatCfg } from "./cfg.ts";
+import type { EnabledByChange, FeatureSetDiff } from "./diff.ts";
+import {
+  type CombinationRun,
+  type FeatureCombination,
+  formatCombination,
+  type MatrixOptions,
+  type RunStatus,
+} from "./matrix.ts";
+import {
+  buildEnablerTree,
+  buildFeatureTree,
+  effectiveResolveOptions,
+  type FeatureManifest,
+  type FeatureTreeNode,
+  getEnableChain,
+  getEnablePaths,
+  isImplicitFeature,
+  listAvailableFeatures,
+  listDisabledFeatures,
+  listEnabledFeatures,
+  type ManifestDiagnostic,
+  type ManifestValidation,
+  type ResolvedFeatures,
+} from "./manifest.ts";
+
+/**
+ * Current version of the output documents.
+ */
+export const OUTPUT_FORMAT_VERSION = 1;
+
+/**
+ * Output formats supported by the CLI.
+ */
+export type OutputFormat = "text" | "json" | "ndjson";
+
+/**
+ * Checks if a string names a supported output format.
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return value === "text" || value === "json" || value === "ndjson";
+}
+
+// =============================================================================
+// Document Types
+// =============================================================================
+
+/**
+ * Fields shared by every output document.
+ */
+interface OutputDocumentBase<TCommand extends string> {
+  readonly version: typeof OUTPUT_FORMAT_VERSION;
+  readonly command: TCommand;
+}
+
+/**
+ * A feature as reported by `ft list`.
+ */
+export interface FeatureEntry {
+  readonly name: string;
+  readonly activates: readonly string[];
+  readonly implicit: boolean;
+  readonly description?: string;
+  readonly unstable?: boolean;
+  readonly deprecated?: boolean;
+  readonly deprecatedMessage?: string;
+}
+
+/**
+ * An enabled feature with the reasons it was enabled.
+ */
+export interface EnabledFeatureEntry {
+  readonly name: string;
+  /** Direct enablers (feature names, or `<default>`, `<explicit>`, `<all-features>`) */
+  readonly enabledBy: readonly string[];
+  /** First enable chain from a root, ending in this feature */
+  readonly chain: readonly string[];
+}
+
+/**
+ * Output of `ft list`. `enabled`/`disabled` are present with `--enabled`.
+ */
+export interface ListDocument extends OutputDocumentBase<"list"> {
+  readonly features: readonly FeatureEntry[];
+  readonly enabled?: readonly EnabledFeatureEntry[];
+  readonly disabled?: readonly string[];
+}
+
+/**
+ * Output of `ft check <feature>`.
+ */
+export interface CheckDocument extends OutputDocumentBase<"check"> {
+  readonly feature: string;
+  readonly defined: boolean;
+  readonly enabled: boolean;
+  readonly enabledBy: readonly string[];
+  readonly chain: readonly string[];
+}
+
+/**
+ * A feature selection, with defaults filled in and the profile expanded.
+ */
+export interface SelectionEntry {
+  readonly features: readonly string[];
+  readonly noDefaultFeatures: boolean;
+  readonly allFeatures: boolean;
+  readonly target: string | null;
+  readonly profile: string | null;
+}
+
+/**
+ * Output of `ft resolve`.
+ */
+export interface ResolveDocument extends OutputDocumentBase<"resolve"> {
+  readonly options: SelectionEntry;
+  readonly enabled: readonly EnabledFeatureEntry[];
+  readonly disabled: readonly string[];
+  readonly activatedDependencies: Readonly<Record<string, readonly string[]>>;
+  readonly undeclaredDependencies: readonly string[];
+}
+
+/**
+ * One side of `ft diff`.
+ */
+export interface DiffSideEntry {
+  readonly options: SelectionEntry;
+  /** Git revision the manifest was loaded from, or null for the working tree */
+  readonly revision: string | null;
+}
+
+/**
+ * Output of `ft diff`.
+ */
+export interface DiffDocument extends OutputDocumentBase<"diff"> {
+  readonly from: DiffSideEntry;
+  readonly to: DiffSideEntry;
+  readonly added: readonly string[];
+  readonly removed: readonly string[];
+  readonly changed: readonly EnabledByChange[];
+  readonly addedDependencies: readonly string[];
+  readonly removedDependencies: readonly string[];
+}
+
+/**
+ * A combination in `ft matrix` and `ft hack` output.
+ */
+export interface CombinationEntry {
+  readonly features: readonly string[];
+  readonly noDefaultFeatures: boolean;
+  /** The selection as CLI flags, e.g. `--no-default-features --features a,b` */
+  readonly flags: string;
+  readonly enabled: readonly string[];
+}
+
+/**
+ * Output of `ft matrix`.
+ */
+export interface MatrixDocument extends OutputDocumentBase<"matrix"> {
+  readonly options: {
+    readonly mode: "powerset" | "each-feature";
+    readonly depth: number | null;
+    readonly exclude: readonly string[];
+    readonly groups: readonly (readonly string[])[];
+    readonly includeDefault: boolean;
+  };
+  readonly combinations: readonly CombinationEntry[];
+}
+
+/**
+ * A run of the command for one combination in `ft hack` output.
+ */
+export interface HackRunEntry {
+  readonly combination: CombinationEntry;
+  readonly status: RunStatus;
+  readonly code: number | null;
+  readonly durationMs: number | null;
+}
+
+/**
+ * Output of `ft hack <command>`.
+ */
+export interface HackDocument extends OutputDocumentBase<"hack"> {
+  readonly commandLine: readonly string[];
+  readonly keepGoing: boolean;
+  readonly passed: number;
+  readonly failed: number;
+  readonly skipped: number;
+  readonly runs: readonly HackRunEntry[];
+}
+
+/**
+ * Output of `ft why <feature>`.
+ */
+export interface WhyDocument extends OutputDocumentBase<"why"> {
+  readonly feature: string;
+  readonly defined: boolean;
+  readonly enabled: boolean;
+  /** Every path from a root (e.g. `<default>`) to the feature */
+  readonly paths: readonly (readonly string[])[];
+  /** Inverted tree: each node's children are its enablers */
+  readonly tree: FeatureTreeNode | null;
+}
+
+/**
+ * Output of `ft tree [feature]`.
+ */
+export interface TreeDocument extends OutputDocumentBase<"tree"> {
+  readonly root: string | null;
+  readonly nodes: readonly FeatureTreeNode[];
+}
+
+/**
+ * Output of `ft validate`.
+ */
+export interface ValidateDocument extends OutputDocumentBase<"validate"> {
+  readonly valid: boolean;
+  readonly errors: readonly string[];
+  readonly warnings: readonly string[];
+  readonly diagnostics: readonly ManifestDiagnostic[];
+}
+
+/**
+ * A node of an evaluated cfg expression.
+ */
+export interface EvaluationEntry {
+  readonly expression: string;
+  readonly value: boolean;
+  readonly children: readonly EvaluationEntry[];
+}
+
+/**
+ * Output of `ft eval <expr>`.
+ */
+export interface EvalDocument extends OutputDocumentBase<"eval"> {
+  readonly expression: string;
+  readonly value: boolean;
+  readonly evaluation: EvaluationEntry;
+}
+
+/**
+ * What `ft codegen` did with the generated module.
+ */
+export type CodegenStatus = "printed" | "written" | "up-to-date" | "stale";
+
+/**
+ * Output of `ft codegen`.
+ */
+export interface CodegenDocument extends OutputDocumentBase<"codegen"> {
+  /** The file written or checked, or null if the module was printed */
+  readonly output: string | null;
+  readonly status: CodegenStatus;
+  /** The feature names in the generated union */
+  readonly features: readonly string[];
+  /** The generated module */
+  readonly code: string;
+}
+
+/**
+ * Result of a command for one workspace member. `document` is missing when
+ * the command failed before producing one, e.g. a selection the member
+ * rejects; `error` says why.
+ */
+export interface WorkspacePackageEntry {
+  readonly name: string;
+  /** Path of the member's config file */
+  readonly path: string | null;
+  readonly document?: ListDocument | ResolveDocument | ValidateDocument;
+  readonly error?: string;
+}
+
+/**
+ * Output of `ft list|resolve|validate --workspace`.
+ */
+export interface WorkspaceDocument extends OutputDocumentBase<"workspace"> {
+  /** The command run for each member */
+  readonly subcommand: "list" | "resolve" | "validate";
+  readonly packages: readonly WorkspacePackageEntry[];
+}
+
+/**
+ * Any CLI output document.
+ */
+export type OutputDocument =
+  | ListDocument
+  | CheckDocument
+  | ResolveDocument
+  | DiffDocument
+  | MatrixDocument
+  | HackDocument
+  | WhyDocument
+  | TreeDocument
+  | ValidateDocument
+  | EvalDocument
+  | CodegenDocument
+  | WorkspaceDocument;
+
+// =============================================================================
+// Document Builders
+// =============================================================================
+
+function selectionEntry(resolved: ResolvedFeatures): SelectionEntry {
+  const options = effectiveResolveOptions(resolved.manifest, resolved.options);
+  return {
+    features: options.features ?? [],
+    noDefaultFeatures: options.noDefaultFeatures ?? false,
+    allFeatures: options.allFeatures ?? false,
+    target: resolved.target ?? null,
+    profile: options.profile ?? null,
+  };
+}
+
+function enabledEntries(resolved: ResolvedFeatures): EnabledFeatureEntry[] {
+  return listEnabledFeatures(resolved).map((name) => ({
+    name,
+    enabledBy: resolved.enabledBy.get(name) ?? [],
+    chain: getEnableChain(name, resolved) ?? [],
+  }));
+}
+
+/**
+ * Builds the `ft list` document.
+ *
+ * @param manifest - The feature manifest
+ * @param resolved - Resolved features, when listing enabled features
+ */
+export function listDocument(
+  manifest: FeatureManifest,
+  resolved?: ResolvedFeatures,
+): ListDocument {
+  const features = listAvailableFeatures(manifest).map((name): FeatureEntry => {
+    const meta = manifest.metadata.get(name);
+    return {
+      name,
+      activates: manifest.features.get(name) ?? [],
+      implicit: isImplicitFeature(manifest, name),
+      description: meta?.description,
+      unstable: meta?.unstable,
+      deprecated: meta?.deprecated,
+      deprecatedMessage: meta?.deprecatedMessage,
+    };
+  });
+
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "list",
+    features,
+    enabled: resolved ? enabledEntries(resolved) : undefined,
+    disabled: resolved ? listDisabledFeatures(resolved) : undefined,
+  };
+}
+
+/**
+ * Builds the `ft check` document.
+ */
+export function checkDocument(feature: string, resolved: ResolvedFeatures): CheckDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "check",
+    feature,
+    defined: resolved.manifest.features.has(feature),
+    enabled: resolved.enabled.has(feature),
+    enabledBy: resolved.enabledBy.get(feature) ?? [],
+    chain: getEnableChain(feature, resolved) ?? [],
+  };
+}
+
+/**
+ * Builds the `ft resolve` document.
+ */
+export function resolveDocument(resolved: ResolvedFeatures): ResolveDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "resolve",
+    options: selectionEntry(resolved),
+    enabled: enabledEntries(resolved),
+    disabled: listDisabledFeatures(resolved),
+    activatedDependencies: Object.fromEntries(resolved.activatedDependencies),
+    undeclaredDependencies: resolved.undeclaredDependencies,
+  };
+}
+
+/**
+ * Builds the `ft diff` document.
+ *
+ * @param from - The baseline resolution and the revision it was loaded from
+ * @param to - The compared resolution and the revision it was loaded from
+ * @param diff - The difference between the two
+ */
+export function diffDocument(
+  from: { resolved: ResolvedFeatures; revision?: string },
+  to: { resolved: ResolvedFeatures; revision?: string },
+  diff: FeatureSetDiff,
+): DiffDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "diff",
+    from: { options: selectionEntry(from.resolved), revision: from.revision ?? null },
+    to: { options: selectionEntry(to.resolved), revision: to.revision ?? null },
+    added: diff.added,
+    removed: diff.removed,
+    changed: diff.changed,
+    addedDependencies: diff.addedDependencies,
+    removedDependencies: diff.removedDependencies,
+  };
+}
+
+function combinationEntry(combination: FeatureCombination): CombinationEntry {
+  return {
+    features: combination.features,
+    noDefaultFeatures: combination.noDefaultFeatures,
+    flags: formatCombination(combination),
+    enabled: combination.enabled,
+  };
+}
+
+/**
+ * Builds the `ft matrix` document.
+ */
+export function matrixDocument(
+  options: MatrixOptions,
+  combinations: readonly FeatureCombination[],
+): MatrixDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "matrix",
+    options: {
+      mode: options.mode ?? "powerset",
+      depth: options.depth ?? null,
+      exclude: options.exclude ?? [],
+      groups: options.groups ?? [],
+      includeDefault: options.includeDefault ?? false,
+    },
+    combinations: combinations.map(combinationEntry),
+  };
+}
+
+/**
+ * Builds the `ft hack` document.
+ */
+export function hackDocument(
+  commandLine: readonly string[],
+  keepGoing: boolean,
+  runs: readonly CombinationRun[],
+): HackDocument {
+  const count = (status: RunStatus): number => runs.filter((r) => r.status === status).length;
+
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "hack",
+    commandLine,
+    keepGoing,
+    passed: count("passed"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    runs: runs.map((run) => ({
+      combination: combinationEntry(run.combination),
+      status: run.status,
+      code: run.code,
+      durationMs: run.durationMs,
+    })),
+  };
+}
+
+/**
+ * Builds the `ft why` document.
+ */
+export function whyDocument(feature: string, resolved: ResolvedFeatures): WhyDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "why",
+    feature,
+    defined: resolved.manifest.features.has(feature),
+    enabled: resolved.enabled.has(feature),
+    paths: getEnablePaths(feature, resolved) ?? [],
+    tree: buildEnablerTree(feature, resolved),
+  };
+}
+
+/**
+ * Builds the `ft tree` document.
+ */
+export function treeDocument(manifest: FeatureManifest, root?: string): TreeDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "tree",
+    root: root ?? null,
+    nodes: buildFeatureTree(manifest, root),
+  };
+}
+
+/**
+ * Builds the `ft validate` document.
+ */
+export function validateDocument(result: ManifestValidation): ValidateDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "validate",
+    valid: result.valid,
+    errors: result.errors,
+    warnings: result.warnings,
+    diagnostics: result.diagnostics,
+  };
+}
+
+/**
+ * Builds the `ft eval` document.
+ */
+export function evalDocument(evaluation: CfgEvaluation): EvalDocument {
+  const toEntry = (e: CfgEvaluation): EvaluationEntry => ({
+    expression: formatCfg(e.expr),
+    value: e.value,
+    children: e.children.map(toEntry),
+  });
+
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "eval",
+    expression: formatCfg(evaluation.expr),
+    value: evaluation.value,
+    evaluation: toEntry(evaluation),
+  };
+}
+
+/**
+ * Builds the `ft codegen` document.
+ */
+export function codegenDocument(
+  manifest: FeatureManifest,
+  output: string | null,
+  status: CodegenStatus,
+  code: string,
+): CodegenDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "codegen",
+    output,
+    status,
+    features: [...manifest.features.keys()],
+    code,
+  };
+}
+
+/**
+ * Builds the document for a command run across workspace members.
+ */
+export function workspaceDocument(
+  subcommand: WorkspaceDocument["subcommand"],
+  packages: readonly WorkspacePackageEntry[],
+): WorkspaceDocument {
+  return {
+    version: OUTPUT_FORMAT_VERSION,
+    command: "workspace",
+    subcommand,
+    packages,
+  };
+}
+
+/**
+ * Serializes a document. `json` is pretty-printed; `ndjson` puts the whole
+ * document on one line so output from several runs can be read line by line.
+ *
+ * @param document - The document to serialize
+ * @param format - "json" or "ndjson"
+ * @returns The serialized document (without trailing newline)
+ */
+export function formatDocument(
+  document: OutputDocument,
+  format: Exclude<OutputFormat, "text">,
+): string {
+  return format === "ndjson" ? JSON.stringify(document) : JSON.stringify(document, null, 2);
+}
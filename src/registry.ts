@@ -2,90 +2,81 @@
  * Feature registry implementation
  *
  * The registry holds all registered features and their current enable/disable state.
- * Features are flat (no hierarchy) - use the manifest system for Cargo-style feature dependencies.
+ * Features are flat (no hierarchy), but a feature can imply others: enabling it
+ * enables them too, with the "implied-by" reason. Use the manifest system for
+ * the rest of the Cargo-style feature model.
+ *
+ * A registry created from a schema with literal feature IDs is typed with
+ * their names (`FeatureRegistry<"fs" | "env">`), and the functions here only
+ * accept those names for it.
  *
  * @module
  */
 
 import { buildSchema, createEmptySchema } from "./schema.ts";
 import {
+  type ConfigSource,
   type FeatureConfig,
   type FeatureDefinition,
-  type FeatureId,
-  featureId,
+  FeatureDependentsError,
+  type FeatureKey,
   FeatureNotFoundError,
   type FeatureRegistry,
+  type FeatureRegistryUpdate,
   type FeatureSchema,
   type FeatureState,
+  type FeatureStateChange,
   type FeatureStateReason,
   type ResolvedConfig,
+  type TypedFeatureId,
 } from "./types.ts";
 
 /**
  * Options for creating a feature registry
  */
-export interface CreateRegistryOptions {
+export interface CreateRegistryOptions<TFeatures extends string = string> {
   /** Feature schema to use */
-  readonly schema?: FeatureSchema;
+  readonly schema?: FeatureSchema<TFeatures>;
   /** Feature configuration */
   readonly config?: FeatureConfig;
   /** Source of the configuration */
   readonly configSource?: ResolvedConfig["source"];
 }
 
+/**
+ * Options for disabling a feature.
+ */
+export interface DisableFeatureOptions {
+  /**
+   * What to do when enabled features imply the feature: "ignore" leaves them
+   * enabled (the explicit disable still wins), "fail" throws a
+   * FeatureDependentsError listing them, "cascade" disables them too
+   * (default: "ignore").
+   */
+  readonly dependents?: "ignore" | "fail" | "cascade";
+}
+
 /**
  * Creates a new feature registry from a schema and configuration.
  *
  * @param options - Registry creation options
  * @returns A new FeatureRegistry
  */
-export function createRegistry(options?: CreateRegistryOptions): FeatureRegistry {
-  const schema = options?.schema ?? createEmptySchema();
+export function createRegistry<TFeatures extends string = string>(
+  options?: CreateRegistryOptions<TFeatures>,
+): FeatureRegistry<TFeatures> {
+  const schema = options?.schema ?? createEmptySchema<TFeatures>();
   const config = options?.config ?? {};
   const configSource = options?.configSource ?? { type: "programmatic" as const };
 
-  const states = new Map<FeatureId, FeatureState>();
+  const states = new Map<TypedFeatureId<TFeatures>, FeatureState>();
 
-  // Initialize all features to their default states
+  // Initialize all features from their defaults and the config
   for (const [id, definition] of schema.features) {
-    states.set(id, computeInitialState(definition, config));
+    states.set(id, configuredState(definition, config, configSource));
   }
 
-  // Apply explicit enables
-  if (config.enabled) {
-    for (const idStr of config.enabled) {
-      try {
-        const id = featureId(idStr);
-        if (schema.features.has(id)) {
-          states.set(id, {
-            enabled: true,
-            reason: "explicit-enabled",
-            source: configSource,
-          });
-        }
-      } catch {
-        // Skip invalid feature IDs
-      }
-    }
-  }
-
-  // Apply explicit disables (overrides enables)
-  if (config.disabled) {
-    for (const idStr of config.disabled) {
-      try {
-        const id = featureId(idStr);
-        if (schema.features.has(id)) {
-          states.set(id, {
-            enabled: false,
-            reason: "explicit-disabled",
-            source: configSource,
-          });
-        }
-      } catch {
-        // Skip invalid feature IDs
-      }
-    }
-  }
+  applyImplications(schema, states, config, configSource);
 
   return {
     schema,
@@ -97,6 +88,64 @@ export function createRegistry(options?: CreateRegistryOptions): FeatureRegistry
   };
 }
 
+/**
+ * Computes a feature's state from the config, before implications: explicit
+ * disables override explicit enables, which override the initial state.
+ */
+function configuredState(
+  definition: FeatureDefinition,
+  config: FeatureConfig,
+  source: ConfigSource,
+): FeatureState {
+  if (config.disabled?.includes(definition.id)) {
+    return { enabled: false, reason: "explicit-disabled", source };
+  }
+  if (config.enabled?.includes(definition.id)) {
+    return { enabled: true, reason: "explicit-enabled", source };
+  }
+  return computeInitialState(definition, config);
+}
+
+/**
+ * Enables the features implied by enabled features, transitively, with the
+ * "implied-by" reason. Features that were explicitly disabled stay disabled.
+ *
+ * Implied states are derived, so existing ones are first reset to their
+ * configured state; a feature is then implied by the first enabled feature
+ * (in schema order) that reaches it.
+ */
+function applyImplications<TFeatures extends string>(
+  schema: FeatureSchema<TFeatures>,
+  states: Map<TypedFeatureId<TFeatures>, FeatureState>,
+  config: FeatureConfig,
+  source: ConfigSource,
+): void {
+  for (const [id, state] of states) {
+    const definition = schema.features.get(id);
+    if (state.reason === "implied-by" && definition) {
+      states.set(id, configuredState(definition, config, source));
+    }
+  }
+
+  const queue = [...states].filter(([, state]) => state.enabled).map(([id]) => id);
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    for (const implied of schema.features.get(id)?.implies ?? []) {
+      const state = states.get(implied);
+      if (!state || state.enabled || state.reason === "explicit-disabled") {
+        continue;
+      }
+      states.set(implied, {
+        enabled: true,
+        reason: "implied-by",
+        impliedBy: id,
+        source: states.get(id)?.source,
+      });
+      queue.push(implied);
+    }
+  }
+}
+
 /**
  * Computes the initial state for a feature based on defaults and config.
  */
@@ -140,11 +189,11 @@ function computeInitialState(
  * @param id - The feature ID to look up
  * @returns The feature definition, or undefined if not found
  */
-export function getFeature(
-  registry: FeatureRegistry,
-  id: FeatureId,
-): FeatureDefinition | undefined {
-  return registry.schema.features.get(id);
+export function getFeature<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
+): FeatureDefinition<TFeatures> | undefined {
+  return (registry.schema.features as ReadonlyMap<string, FeatureDefinition<TFeatures>>).get(id);
 }
 
 /**
@@ -154,11 +203,11 @@ export function getFeature(
  * @param id - The feature ID to look up
  * @returns The feature state, or undefined if not registered
  */
-export function getFeatureState(
-  registry: FeatureRegistry,
-  id: FeatureId,
+export function getFeatureState<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
 ): FeatureState | undefined {
-  return registry.states.get(id);
+  return (registry.states as ReadonlyMap<string, FeatureState>).get(id);
 }
 
 /**
@@ -168,9 +217,11 @@ export function getFeatureState(
  * @param id - The feature ID to check
  * @returns True if the feature is enabled
  */
-export function isEnabled(registry: FeatureRegistry, id: FeatureId): boolean {
-  const state = registry.states.get(id);
-  return state?.enabled ?? false;
+export function isEnabled<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
+): boolean {
+  return getFeatureState(registry, id)?.enabled ?? false;
 }
 
 /**
@@ -180,7 +231,10 @@ export function isEnabled(registry: FeatureRegistry, id: FeatureId): boolean {
  * @param id - The feature ID to check
  * @returns True if the feature is disabled
  */
-export function isDisabled(registry: FeatureRegistry, id: FeatureId): boolean {
+export function isDisabled<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
+): boolean {
   return !isEnabled(registry, id);
 }
 
@@ -191,9 +245,12 @@ export function isDisabled(registry: FeatureRegistry, id: FeatureId): boolean {
  * @param id - The feature ID to require
  * @throws FeatureNotFoundError if the feature is not enabled
  */
-export function requireFeature(registry: FeatureRegistry, id: FeatureId): void {
+export function requireFeature<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
+): void {
   if (!isEnabled(registry, id)) {
-    throw new FeatureNotFoundError(id as string);
+    throw new FeatureNotFoundError(id);
   }
 }
 
@@ -201,25 +258,49 @@ export function requireFeature(registry: FeatureRegistry, id: FeatureId): void {
  * Sets the state of a feature, returning a new registry.
  * This is an immutable operation.
  *
+ * Implications are applied again afterwards: enabling a feature also enables
+ * the features it implies, and features that were only implied by a disabled
+ * feature go back to their configured state. An explicitly disabled feature
+ * stays disabled even if an enabled feature implies it.
+ *
  * @param registry - The current registry
  * @param id - The feature ID to update
  * @param enabled - Whether the feature should be enabled
  * @returns A new registry with the updated state
  */
-export function setFeatureState(
-  registry: FeatureRegistry,
-  id: FeatureId,
+export function setFeatureState<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
   enabled: boolean,
-): FeatureRegistry {
+): FeatureRegistry<TFeatures> {
+  return updateStates(registry, [id as TypedFeatureId<TFeatures>], enabled);
+}
+
+/**
+ * Explicitly sets the state of features and re-applies implications.
+ */
+function updateStates<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  ids: readonly TypedFeatureId<TFeatures>[],
+  enabled: boolean,
+): FeatureRegistry<TFeatures> {
   const newStates = new Map(registry.states);
 
   const reason: FeatureStateReason = enabled ? "explicit-enabled" : "explicit-disabled";
 
-  newStates.set(id, {
-    enabled,
-    reason,
-    source: { type: "programmatic" },
-  });
+  for (const id of ids) {
+    newStates.set(id, {
+      enabled,
+      reason,
+      source: { type: "programmatic" },
+    });
+  }
+  applyImplications(
+    registry.schema,
+    newStates,
+    registry.config.config,
+    registry.config.source,
+  );
 
   return {
     schema: registry.schema,
@@ -228,26 +309,133 @@ export function setFeatureState(
   };
 }
 
+/**
+ * Adds the states that differ between two registries to the updated one.
+ */
+function withChanges<TFeatures extends string>(
+  before: FeatureRegistry<TFeatures>,
+  after: FeatureRegistry<TFeatures>,
+): FeatureRegistryUpdate<TFeatures> {
+  const changes: FeatureStateChange<TFeatures>[] = [];
+  for (const [id, state] of after.states) {
+    const previous = before.states.get(id);
+    if (
+      previous?.enabled !== state.enabled ||
+      previous.reason !== state.reason ||
+      previous.impliedBy !== state.impliedBy
+    ) {
+      changes.push({ id, before: previous, after: state });
+    }
+  }
+  return { ...after, changes };
+}
+
+/**
+ * Lists the features a feature implies, directly or through other features.
+ */
+function impliedClosure<TFeatures extends string>(
+  schema: FeatureSchema<TFeatures>,
+  id: string,
+): TypedFeatureId<TFeatures>[] {
+  const definitions = schema.features as ReadonlyMap<string, FeatureDefinition<TFeatures>>;
+  const closure: TypedFeatureId<TFeatures>[] = [];
+  const seen = new Set<string>([id]);
+  const queue = [id];
+
+  for (let i = 0; i < queue.length; i++) {
+    for (const implied of definitions.get(queue[i])?.implies ?? []) {
+      if (!seen.has(implied)) {
+        seen.add(implied);
+        queue.push(implied);
+        closure.push(implied);
+      }
+    }
+  }
+
+  return closure;
+}
+
+/**
+ * Lists the enabled features that imply a feature, directly or through other
+ * enabled features, nearest first.
+ */
+function enabledDependents<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: string,
+): TypedFeatureId<TFeatures>[] {
+  const dependents: TypedFeatureId<TFeatures>[] = [];
+  const queue = [id];
+  const seen = new Set(queue);
+
+  for (let i = 0; i < queue.length; i++) {
+    for (const [other, definition] of registry.schema.features) {
+      const implies: readonly string[] = definition.implies ?? [];
+      if (seen.has(other) || !implies.includes(queue[i])) {
+        continue;
+      }
+      seen.add(other);
+      // A disabled feature doesn't keep the ones it implies on
+      if (registry.states.get(other)?.enabled) {
+        queue.push(other);
+        dependents.push(other);
+      }
+    }
+  }
+
+  return dependents;
+}
+
 /**
  * Enables a feature, returning a new registry.
  *
+ * The features it implies are enabled with it, transitively. Unlike with
+ * `setFeatureState`, this includes implied features that were explicitly
+ * disabled: they are explicitly enabled again. The result lists every state
+ * that changed.
+ *
  * @param registry - The current registry
  * @param id - The feature ID to enable
- * @returns A new registry with the feature enabled
+ * @returns A new registry with the feature enabled, and the changes
  */
-export function enableFeature(registry: FeatureRegistry, id: FeatureId): FeatureRegistry {
-  return setFeatureState(registry, id, true);
+export function enableFeature<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
+): FeatureRegistryUpdate<TFeatures> {
+  const disabled = impliedClosure(registry.schema, id).filter((implied) =>
+    registry.states.get(implied)?.reason === "explicit-disabled"
+  );
+  const ids = [id as TypedFeatureId<TFeatures>, ...disabled];
+  return withChanges(registry, updateStates(registry, ids, true));
 }
 
 /**
  * Disables a feature, returning a new registry.
  *
+ * Features that are enabled only because it implies them go back to their
+ * configured state. Enabled features that imply it (its dependents) stay
+ * enabled by default; with `options.dependents` they can instead make this
+ * fail, or be disabled too. The result lists every state that changed.
+ *
  * @param registry - The current registry
  * @param id - The feature ID to disable
- * @returns A new registry with the feature disabled
+ * @param options - Optional handling of dependents
+ * @returns A new registry with the feature disabled, and the changes
+ * @throws FeatureDependentsError if enabled features imply the feature and
+ *   `options.dependents` is "fail"
  */
-export function disableFeature(registry: FeatureRegistry, id: FeatureId): FeatureRegistry {
-  return setFeatureState(registry, id, false);
+export function disableFeature<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+  id: FeatureKey<TFeatures>,
+  options?: DisableFeatureOptions,
+): FeatureRegistryUpdate<TFeatures> {
+  const mode = options?.dependents ?? "ignore";
+  const dependents = mode === "ignore" ? [] : enabledDependents(registry, id);
+  if (dependents.length > 0 && mode === "fail") {
+    throw new FeatureDependentsError(id, dependents);
+  }
+
+  const ids = [id as TypedFeatureId<TFeatures>, ...dependents];
+  return withChanges(registry, updateStates(registry, ids, false));
 }
 
 /**
@@ -256,7 +444,9 @@ export function disableFeature(registry: FeatureRegistry, id: FeatureId): Featur
  * @param registry - The feature registry
  * @returns Array of all feature IDs
  */
-export function listFeatures(registry: FeatureRegistry): FeatureId[] {
+export function listFeatures<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+): TypedFeatureId<TFeatures>[] {
   return [...registry.schema.features.keys()];
 }
 
@@ -266,8 +456,10 @@ export function listFeatures(registry: FeatureRegistry): FeatureId[] {
  * @param registry - The feature registry
  * @returns Array of enabled feature IDs
  */
-export function listEnabledFeatures(registry: FeatureRegistry): FeatureId[] {
-  const enabled: FeatureId[] = [];
+export function listEnabledFeatures<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+): TypedFeatureId<TFeatures>[] {
+  const enabled: TypedFeatureId<TFeatures>[] = [];
   for (const [id, state] of registry.states) {
     if (state.enabled) {
       enabled.push(id);
@@ -282,8 +474,10 @@ export function listEnabledFeatures(registry: FeatureRegistry): FeatureId[] {
  * @param registry - The feature registry
  * @returns Array of disabled feature IDs
  */
-export function listDisabledFeatures(registry: FeatureRegistry): FeatureId[] {
-  const disabled: FeatureId[] = [];
+export function listDisabledFeatures<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+): TypedFeatureId<TFeatures>[] {
+  const disabled: TypedFeatureId<TFeatures>[] = [];
   for (const [id, state] of registry.states) {
     if (!state.enabled) {
       disabled.push(id);
@@ -298,7 +492,9 @@ export function listDisabledFeatures(registry: FeatureRegistry): FeatureId[] {
  * @param registry - The registry to clone
  * @returns A new registry with the same state
  */
-export function cloneRegistry(registry: FeatureRegistry): FeatureRegistry {
+export function cloneRegistry<TFeatures extends string>(
+  registry: FeatureRegistry<TFeatures>,
+): FeatureRegistry<TFeatures> {
   return {
     schema: registry.schema,
     states: new Map(registry.states),
@@ -312,7 +508,9 @@ export function cloneRegistry(registry: FeatureRegistry): FeatureRegistry {
  * @param featureIds - Array of feature ID strings to enable
  * @returns A new registry with those features enabled
  */
-export function createSimpleRegistry(featureIds: string[]): FeatureRegistry {
+export function createSimpleRegistry<const TId extends string>(
+  featureIds: readonly TId[],
+): FeatureRegistry<TId> {
   // Create definitions for each feature
   const definitions = featureIds.map((id) => ({ id }));
 
@@ -336,12 +534,15 @@ export function createSimpleRegistry(featureIds: string[]): FeatureRegistry {
  * @param override - The registry to merge on top
  * @returns A new merged registry
  */
-export function mergeRegistries(
-  base: FeatureRegistry,
-  override: FeatureRegistry,
-): FeatureRegistry {
+export function mergeRegistries<TBase extends string, TOverride extends string>(
+  base: FeatureRegistry<TBase>,
+  override: FeatureRegistry<TOverride>,
+): FeatureRegistry<TBase | TOverride> {
   // Merge schemas (override takes precedence for same IDs)
-  const allFeatures = new Map<FeatureId, FeatureDefinition>();
+  const allFeatures = new Map<
+    TypedFeatureId<TBase | TOverride>,
+    FeatureDefinition<TBase | TOverride>
+  >();
   for (const [id, def] of base.schema.features) {
     allFeatures.set(id, def);
   }
@@ -351,17 +552,18 @@ export function mergeRegistries(
 
   // Rebuild schema from merged features
   const definitions = [...allFeatures.values()].map((def) => ({
-    id: def.id as string,
+    id: def.id,
     name: def.name,
     description: def.description,
     defaultEnabled: def.defaultEnabled,
+    implies: def.implies,
     metadata: def.metadata,
   }));
 
   const schema = buildSchema(definitions);
 
   // Merge states (override takes precedence)
-  const states = new Map<FeatureId, FeatureState>();
+  const states = new Map<TypedFeatureId<TBase | TOverride>, FeatureState>();
   for (const [id, state] of base.states) {
     states.set(id, state);
   }
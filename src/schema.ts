@@ -10,11 +10,11 @@
 import {
   type FeatureDefinition,
   type FeatureDefinitionInput,
-  type FeatureId,
   featureId,
   type FeatureSchema,
   FeatureSchemaError,
   isValidFeatureId,
+  type TypedFeatureId,
 } from "./types.ts";
 
 /**
@@ -139,7 +139,7 @@ export function validateFeatureDefinition(
  * @param definitions - Array of feature definitions to validate as a schema
  * @returns Validation result
  */
-export function validateSchema(definitions: FeatureDefinitionInput[]): ValidationResult {
+export function validateSchema(definitions: readonly FeatureDefinitionInput[]): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
   const seenIds = new Set<string>();
@@ -157,6 +157,15 @@ export function validateSchema(definitions: FeatureDefinitionInput[]): Validatio
     seenIds.add(def.id);
   }
 
+  // Check that implied features are part of the schema
+  for (const def of definitions) {
+    for (const implied of def.implies ?? []) {
+      if (!seenIds.has(implied)) {
+        errors.push(`Feature "${def.id}" implies unknown feature "${implied}"`);
+      }
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -167,11 +176,22 @@ export function validateSchema(definitions: FeatureDefinitionInput[]): Validatio
 /**
  * Builds a FeatureSchema from an array of feature definition inputs.
  *
+ * When the IDs are literals, the schema is typed with their names, and so is
+ * a registry created from it:
+ *
+ * ```ts
+ * const schema = buildSchema([{ id: "fs" }, { id: "env" }]); // FeatureSchema<"fs" | "env">
+ * isEnabled(createRegistry({ schema }), "fs"); // ok
+ * isEnabled(createRegistry({ schema }), "net"); // type error
+ * ```
+ *
  * @param definitions - Array of feature definitions
  * @returns A complete FeatureSchema
  * @throws FeatureSchemaError if validation fails
  */
-export function buildSchema(definitions: FeatureDefinitionInput[]): FeatureSchema {
+export function buildSchema<const TId extends string>(
+  definitions: readonly FeatureDefinitionInput<TId>[],
+): FeatureSchema<TId> {
   // Validate first
   const validation = validateSchema(definitions);
   if (!validation.valid) {
@@ -181,18 +201,19 @@ export function buildSchema(definitions: FeatureDefinitionInput[]): FeatureSchem
   }
 
   // Build the feature map
-  const features = new Map<FeatureId, FeatureDefinition>();
-  const allFeatures: FeatureId[] = [];
+  const features = new Map<TypedFeatureId<TId>, FeatureDefinition<TId>>();
+  const allFeatures: TypedFeatureId<TId>[] = [];
 
   // Create all feature definitions (flat, no hierarchy)
   for (const input of definitions) {
-    const id = featureId(input.id);
+    const id = featureId(input.id) as TypedFeatureId<TId>;
 
-    const definition: FeatureDefinition = {
+    const definition: FeatureDefinition<TId> = {
       id,
       name: input.name,
       description: input.description,
       defaultEnabled: input.defaultEnabled ?? false,
+      implies: input.implies?.map((implied) => featureId(implied) as TypedFeatureId<TId>),
       metadata: input.metadata,
     };
 
@@ -209,7 +230,7 @@ export function buildSchema(definitions: FeatureDefinitionInput[]): FeatureSchem
 /**
  * Creates an empty schema.
  */
-export function createEmptySchema(): FeatureSchema {
+export function createEmptySchema<TFeatures extends string = string>(): FeatureSchema<TFeatures> {
   return {
     features: new Map(),
     allFeatures: [],
@@ -224,17 +245,21 @@ export function createEmptySchema(): FeatureSchema {
  * @param override - The schema to merge on top
  * @returns A new merged schema
  */
-export function mergeSchemas(base: FeatureSchema, override: FeatureSchema): FeatureSchema {
+export function mergeSchemas<TBase extends string, TOverride extends string>(
+  base: FeatureSchema<TBase>,
+  override: FeatureSchema<TOverride>,
+): FeatureSchema<TBase | TOverride> {
   // Collect all definitions
-  const allDefinitions: FeatureDefinitionInput[] = [];
+  const allDefinitions: FeatureDefinitionInput<TBase | TOverride>[] = [];
 
   // Add base definitions
   for (const [, def] of base.features) {
     allDefinitions.push({
-      id: def.id as string,
+      id: def.id,
       name: def.name,
       description: def.description,
       defaultEnabled: def.defaultEnabled,
+      implies: def.implies,
       metadata: def.metadata,
     });
   }
@@ -242,7 +267,7 @@ export function mergeSchemas(base: FeatureSchema, override: FeatureSchema): Feat
   // Add/override with new definitions
   const seenIds = new Set(allDefinitions.map((d) => d.id));
   for (const [, def] of override.features) {
-    const idStr = def.id as string;
+    const idStr: TBase | TOverride = def.id;
     if (seenIds.has(idStr)) {
       // Override existing
       const index = allDefinitions.findIndex((d) => d.id === idStr);
@@ -251,6 +276,7 @@ export function mergeSchemas(base: FeatureSchema, override: FeatureSchema): Feat
         name: def.name,
         description: def.description,
         defaultEnabled: def.defaultEnabled,
+        implies: def.implies,
         metadata: def.metadata,
       };
     } else {
@@ -259,6 +285,7 @@ export function mergeSchemas(base: FeatureSchema, override: FeatureSchema): Feat
         name: def.name,
         description: def.description,
         defaultEnabled: def.defaultEnabled,
+        implies: def.implies,
         metadata: def.metadata,
       });
     }
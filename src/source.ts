@@ -0,0 +1,376 @@
+/**
+ * @module source
+ * Parsing of JSON and JSONC config files, and source locations for their values.
+ *
+ * Locations are indexed by JSON Pointer (RFC 6901), e.g. `/features/std` for
+ * the `std` key in the features map and `/features/std/0` for its first entry.
+ */
+
+import { ConfigParseError } from "./types.ts";
+
+/**
+ * A position in a source file (1-based line and column).
+ */
+export interface SourceLocation {
+  /** Path of the file, if known */
+  readonly path?: string;
+  readonly line: number;
+  readonly column: number;
+}
+
+/**
+ * Escapes a single JSON Pointer reference token.
+ */
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Builds a JSON Pointer from reference tokens.
+ *
+ * @param tokens - Object keys and array indices, outermost first
+ * @returns The pointer, e.g. `/features/std/0`
+ *
+ * @example
+ * jsonPointer(["features", "std", 0]) // "/features/std/0"
+ */
+export function jsonPointer(tokens: readonly (string | number)[]): string {
+  return tokens.map((t) => `/${escapePointerToken(String(t))}`).join("");
+}
+
+/**
+ * Formats a location as `path:line:column` (or `line:column` without a path).
+ */
+export function formatLocation(location: SourceLocation): string {
+  const position = `${location.line}:${location.column}`;
+  return location.path ? `${location.path}:${position}` : position;
+}
+
+/**
+ * Returns a function converting offsets in `text` to line/column locations.
+ */
+export function offsetLocator(text: string, path?: string): (offset: number) => SourceLocation {
+  // Offsets where each line starts
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number): SourceLocation => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { path, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Creates the error for a syntax error at a location in a config file.
+ */
+export function syntaxError(message: string, location: SourceLocation): ConfigParseError {
+  const at = location.path
+    ? formatLocation(location)
+    : `line ${location.line}, column ${location.column}`;
+  return new ConfigParseError(`${message} at ${at}`, location.line, location.column, location.path);
+}
+
+/**
+ * Returns the offset after the comment starting at `pos`, or `pos` if there
+ * is no comment there. Unterminated block comments run to the end of the text.
+ */
+function skipComment(text: string, pos: number): number {
+  if (text[pos] !== "/") {
+    return pos;
+  }
+  if (text[pos + 1] === "/") {
+    const end = text.indexOf("\n", pos);
+    return end === -1 ? text.length : end;
+  }
+  if (text[pos + 1] === "*") {
+    const end = text.indexOf("*/", pos + 2);
+    return end === -1 ? text.length : end + 2;
+  }
+  return pos;
+}
+
+/**
+ * Options for {@link parseJson}.
+ */
+export interface ParseJsonOptions {
+  /**
+   * Accept JSONC, as used by deno.json and deno.jsonc: line and block
+   * comments, and trailing commas.
+   */
+  readonly comments?: boolean;
+  /** Path of the file, included in error messages */
+  readonly path?: string;
+}
+
+/**
+ * Parses JSON or JSONC text.
+ *
+ * Unlike `JSON.parse`, syntax errors carry the line and column where
+ * parsing stopped.
+ *
+ * @param text - The source text
+ * @param options - Whether to accept comments, and the file path for errors
+ * @returns The parsed value
+ * @throws ConfigParseError if the text is not valid JSON (or JSONC)
+ *
+ * @example
+ * parseJson('{ "a": 1, // one\n }', { comments: true }) // { a: 1 }
+ */
+export function parseJson(text: string, options: ParseJsonOptions = {}): unknown {
+  const { comments = false, path } = options;
+  const locate = offsetLocator(text, path);
+  let pos = 0;
+
+  const fail = (message: string, offset: number = pos): never => {
+    throw syntaxError(message, locate(offset));
+  };
+
+  const describe = (offset: number): string =>
+    offset >= text.length ? "end of input" : `character ${JSON.stringify(text[offset])}`;
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+        continue;
+      }
+      const end = comments ? skipComment(text, pos) : pos;
+      if (end === pos) {
+        return;
+      }
+      if (text.startsWith("/*", pos) && text.indexOf("*/", pos + 2) === -1) {
+        fail("Unterminated comment");
+      }
+      pos = end;
+    }
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === "\n") {
+        break;
+      }
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    if (text[pos] !== '"') {
+      fail("Unterminated string", start);
+    }
+    pos++; // closing quote
+    try {
+      return JSON.parse(text.slice(start, pos)) as string;
+    } catch {
+      return fail("Invalid string", start);
+    }
+  };
+
+  const number = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+  // Reads a comma-separated list up to `close`, calling `item` for each entry
+  const parseList = (close: "}" | "]", item: () => void): void => {
+    pos++; // opening bracket
+    skipWhitespace();
+    if (text[pos] === close) {
+      pos++;
+      return;
+    }
+    while (true) {
+      item();
+      skipWhitespace();
+      if (text[pos] === close) {
+        pos++;
+        return;
+      }
+      if (text[pos] !== ",") {
+        fail(`Expected "," or "${close}" but found ${describe(pos)}`);
+      }
+      const comma = pos;
+      pos++;
+      skipWhitespace();
+      if (text[pos] === close) {
+        if (!comments) {
+          fail("Trailing comma", comma);
+        }
+        pos++;
+        return;
+      }
+    }
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === "{") {
+      const object: Record<string, unknown> = {};
+      parseList("}", () => {
+        if (text[pos] !== '"') {
+          fail(`Expected a property name but found ${describe(pos)}`);
+        }
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ":") {
+          fail(`Expected ":" but found ${describe(pos)}`);
+        }
+        pos++;
+        // defineProperty so that "__proto__" becomes a plain key, as with JSON.parse
+        Object.defineProperty(object, key, {
+          value: parseValue(),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      });
+      return object;
+    }
+
+    if (char === "[") {
+      const array: unknown[] = [];
+      parseList("]", () => array.push(parseValue()));
+      return array;
+    }
+
+    if (char === '"') {
+      return parseString();
+    }
+
+    for (const [literal, value] of [["true", true], ["false", false], ["null", null]] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return value;
+      }
+    }
+
+    number.lastIndex = pos;
+    const match = number.exec(text);
+    if (match) {
+      pos += match[0].length;
+      return Number(match[0]);
+    }
+
+    return fail(`Unexpected ${describe(pos)}`);
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (pos < text.length) {
+    fail(`Unexpected ${describe(pos)} after the value`);
+  }
+  return value;
+}
+
+/**
+ * Indexes the location of every object member and array element in a JSON text.
+ *
+ * Object members are located at their key, array elements at their value.
+ * Comments are skipped, so JSONC text can be indexed too. The scan is
+ * tolerant: on malformed input it returns whatever it indexed before the error.
+ *
+ * @param text - The JSON source text
+ * @param path - Optional file path to attach to each location
+ * @returns Map of JSON Pointer to location
+ */
+export function indexJsonLocations(text: string, path?: string): Map<string, SourceLocation> {
+  const locations = new Map<string, SourceLocation>();
+  const locate = offsetLocator(text, path);
+
+  let pos = 0;
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+        continue;
+      }
+      const end = skipComment(text, pos);
+      if (end === pos) {
+        return;
+      }
+      pos = end;
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    pos++; // closing quote
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+
+  const scanValue = (pointer: string): void => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === "{") {
+      pos++;
+      skipWhitespace();
+      while (pos < text.length && text[pos] !== "}") {
+        const keyOffset = pos;
+        const key = readString();
+        const memberPointer = `${pointer}/${escapePointerToken(key)}`;
+        locations.set(memberPointer, locate(keyOffset));
+
+        skipWhitespace();
+        pos++; // colon
+        scanValue(memberPointer);
+
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+    } else if (char === "[") {
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (pos < text.length && text[pos] !== "]") {
+        const elementPointer = `${pointer}/${index}`;
+        skipWhitespace();
+        locations.set(elementPointer, locate(pos));
+        scanValue(elementPointer);
+        index++;
+
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      // Number, true, false or null
+      while (pos < text.length && /[^\s,\]}]/.test(text[pos])) {
+        pos++;
+      }
+    }
+  };
+
+  try {
+    scanValue("");
+  } catch {
+    // Malformed input: keep what was indexed so far
+  }
+
+  return locations;
+}
@@ -0,0 +1,443 @@
+/**
+ * @module toml
+ * A TOML parser for `ft-flags.toml` manifests.
+ *
+ * Covers what a feature manifest needs from TOML 1.0: tables and arrays of
+ * tables, bare, quoted and dotted keys, basic and literal strings (including
+ * multi-line ones), integers, floats, booleans, arrays and inline tables.
+ * Dates and times are not supported.
+ *
+ * @example
+ * ```ts
+ * parseToml('[features]\ndefault = ["std"]\nstd = []');
+ * // { features: { default: ["std"], std: [] } }
+ * ```
+ */
+
+import { offsetLocator, syntaxError } from "./source.ts";
+
+type TomlTable = Record<string, unknown>;
+
+const ESCAPES = new Map([
+  ["b", "\b"],
+  ["t", "\t"],
+  ["n", "\n"],
+  ["f", "\f"],
+  ["r", "\r"],
+  ['"', '"'],
+  ["\\", "\\"],
+]);
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+
+const NUMBER =
+  /[+-]?(?:inf|nan|0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*|0o[0-7](?:_?[0-7])*|0b[01](?:_?[01])*|(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?)/y;
+
+const DATE_OR_TIME = /\d{4}-\d{2}-\d{2}|\d{2}:\d{2}/y;
+
+/**
+ * Sets a key without going through setters, so that `__proto__` becomes a
+ * plain key.
+ */
+function define(table: TomlTable, key: string, value: unknown): void {
+  Object.defineProperty(table, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+function isTable(value: unknown): value is TomlTable {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses a TOML document.
+ *
+ * @param text - The TOML source
+ * @param path - Optional file path, included in error messages
+ * @returns The document as a plain object
+ * @throws ConfigParseError for invalid or unsupported TOML, with the line and column
+ */
+export function parseToml(text: string, path?: string): Record<string, unknown> {
+  const locate = offsetLocator(text, path);
+  let pos = 0;
+
+  const fail = (message: string, offset: number = pos): never => {
+    throw syntaxError(message, locate(offset));
+  };
+
+  const describe = (offset: number): string =>
+    offset >= text.length ? "end of input" : `character ${JSON.stringify(text[offset])}`;
+
+  // Tables defined by a [header], which cannot be defined again
+  const defined = new Set<TomlTable>();
+  // Inline tables and static arrays, which cannot be extended
+  const closed = new Set<unknown>();
+  // Arrays created by [[headers]]
+  const tableArrays = new Set<unknown[]>();
+
+  // ---------------------------------------------------------------------------
+  // Whitespace and comments
+  // ---------------------------------------------------------------------------
+
+  const skipSpaces = (): void => {
+    while (text[pos] === " " || text[pos] === "\t") {
+      pos++;
+    }
+  };
+
+  const skipComment = (): void => {
+    if (text[pos] === "#") {
+      while (pos < text.length && text[pos] !== "\n") {
+        pos++;
+      }
+    }
+  };
+
+  // Spaces, newlines and comments, as allowed between array elements
+  const skipBlank = (): void => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+      } else if (text[pos] === "#") {
+        skipComment();
+      } else {
+        return;
+      }
+    }
+  };
+
+  const expectLineEnd = (): void => {
+    skipSpaces();
+    skipComment();
+    if (text[pos] === "\r") {
+      pos++;
+    }
+    if (pos < text.length && text[pos] !== "\n") {
+      fail(`Expected the end of the line but found ${describe(pos)}`);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Strings
+  // ---------------------------------------------------------------------------
+
+  const skipNewline = (): void => {
+    if (text.startsWith("\r\n", pos)) {
+      pos += 2;
+    } else if (text[pos] === "\n") {
+      pos++;
+    }
+  };
+
+  const parseBasicString = (allowMultiline: boolean): string => {
+    const start = pos;
+    const multiline = allowMultiline && text.startsWith('"""', pos);
+    pos += multiline ? 3 : 1;
+    if (multiline) {
+      skipNewline();
+    }
+
+    let value = "";
+    while (true) {
+      if (pos >= text.length || (!multiline && text[pos] === "\n")) {
+        return fail("Unterminated string", start);
+      }
+      if (multiline ? text.startsWith('"""', pos) : text[pos] === '"') {
+        pos += multiline ? 3 : 1;
+        return value;
+      }
+
+      const char = text[pos];
+      if (char !== "\\") {
+        value += char;
+        pos++;
+        continue;
+      }
+
+      const next = text[pos + 1] ?? "";
+      if (multiline && /\s/.test(next)) {
+        // Line-ending backslash: trim up to the next non-whitespace character
+        pos++;
+        while (pos < text.length && /\s/.test(text[pos])) {
+          pos++;
+        }
+      } else if (next === "u" || next === "U") {
+        const length = next === "u" ? 4 : 8;
+        const hex = text.slice(pos + 2, pos + 2 + length);
+        const codePoint = parseInt(hex, 16);
+        if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length || codePoint > 0x10ffff) {
+          fail("Invalid unicode escape");
+        }
+        value += String.fromCodePoint(codePoint);
+        pos += 2 + length;
+      } else {
+        const escaped = ESCAPES.get(next);
+        if (escaped === undefined) {
+          fail(`Invalid escape "\\${next}"`);
+        }
+        value += escaped;
+        pos += 2;
+      }
+    }
+  };
+
+  const parseLiteralString = (allowMultiline: boolean): string => {
+    const start = pos;
+    const close = allowMultiline && text.startsWith("'''", pos) ? "'''" : "'";
+    pos += close.length;
+    if (close === "'''") {
+      skipNewline();
+    }
+
+    const end = text.indexOf(close, pos);
+    const newline = text.indexOf("\n", pos);
+    if (end === -1 || (close === "'" && newline !== -1 && newline < end)) {
+      fail("Unterminated string", start);
+    }
+
+    const value = text.slice(pos, end);
+    pos = end + close.length;
+    return value;
+  };
+
+  // ---------------------------------------------------------------------------
+  // Keys
+  // ---------------------------------------------------------------------------
+
+  const parseKeyPart = (): string => {
+    if (text[pos] === '"') {
+      return parseBasicString(false);
+    }
+    if (text[pos] === "'") {
+      return parseLiteralString(false);
+    }
+    const start = pos;
+    while (pos < text.length && BARE_KEY.test(text[pos])) {
+      pos++;
+    }
+    if (pos === start) {
+      fail(`Expected a key but found ${describe(pos)}`);
+    }
+    return text.slice(start, pos);
+  };
+
+  const parseKey = (): string[] => {
+    const parts = [parseKeyPart()];
+    skipSpaces();
+    while (text[pos] === ".") {
+      pos++;
+      skipSpaces();
+      parts.push(parseKeyPart());
+      skipSpaces();
+    }
+    return parts;
+  };
+
+  /**
+   * Walks down `parts` from `table`, creating missing tables. Arrays of
+   * tables are entered at their last element.
+   */
+  const descend = (table: TomlTable, parts: readonly string[], offset: number): TomlTable => {
+    let current = table;
+    for (const part of parts) {
+      if (!Object.hasOwn(current, part)) {
+        const child: TomlTable = {};
+        define(current, part, child);
+        current = child;
+        continue;
+      }
+
+      const existing = current[part];
+      if (Array.isArray(existing) && tableArrays.has(existing)) {
+        current = existing[existing.length - 1] as TomlTable;
+      } else if (isTable(existing) && !closed.has(existing)) {
+        current = existing;
+      } else {
+        fail(`Key "${part}" is already defined as a value`, offset);
+      }
+    }
+    return current;
+  };
+
+  // ---------------------------------------------------------------------------
+  // Values
+  // ---------------------------------------------------------------------------
+
+  const parseKeyValue = (table: TomlTable): void => {
+    const offset = pos;
+    const parts = parseKey();
+    if (text[pos] !== "=") {
+      fail(`Expected "=" but found ${describe(pos)}`);
+    }
+    pos++;
+    skipSpaces();
+
+    const target = descend(table, parts.slice(0, -1), offset);
+    const key = parts[parts.length - 1];
+    if (Object.hasOwn(target, key)) {
+      fail(`Duplicate key "${parts.join(".")}"`, offset);
+    }
+    define(target, key, parseValue());
+  };
+
+  const parseArray = (): unknown[] => {
+    const array: unknown[] = [];
+    pos++; // opening bracket
+
+    while (true) {
+      skipBlank();
+      if (text[pos] === "]") {
+        break;
+      }
+      array.push(parseValue());
+      skipBlank();
+      if (text[pos] === ",") {
+        pos++;
+      } else if (text[pos] !== "]") {
+        fail(`Expected "," or "]" but found ${describe(pos)}`);
+      }
+    }
+
+    pos++; // closing bracket
+    closed.add(array);
+    return array;
+  };
+
+  const parseInlineTable = (): TomlTable => {
+    const table: TomlTable = {};
+    pos++; // opening brace
+    skipSpaces();
+
+    if (text[pos] !== "}") {
+      while (true) {
+        skipSpaces();
+        parseKeyValue(table);
+        skipSpaces();
+        if (text[pos] === "}") {
+          break;
+        }
+        if (text[pos] !== ",") {
+          fail(`Expected "," or "}" but found ${describe(pos)}`);
+        }
+        pos++;
+      }
+    }
+
+    pos++; // closing brace
+    closed.add(table);
+    return table;
+  };
+
+  const parseValue = (): unknown => {
+    const char = text[pos];
+
+    if (char === '"') {
+      return parseBasicString(true);
+    }
+    if (char === "'") {
+      return parseLiteralString(true);
+    }
+    if (char === "[") {
+      return parseArray();
+    }
+    if (char === "{") {
+      return parseInlineTable();
+    }
+
+    for (const [literal, value] of [["true", true], ["false", false]] as const) {
+      if (text.startsWith(literal, pos) && !BARE_KEY.test(text[pos + literal.length] ?? "")) {
+        pos += literal.length;
+        return value;
+      }
+    }
+
+    DATE_OR_TIME.lastIndex = pos;
+    if (DATE_OR_TIME.test(text)) {
+      fail("Dates and times are not supported");
+    }
+
+    NUMBER.lastIndex = pos;
+    const match = NUMBER.exec(text);
+    if (match && !/[\w.]/.test(text[pos + match[0].length] ?? "")) {
+      pos += match[0].length;
+      const number = match[0].replace(/_/g, "");
+      if (/inf$/.test(number)) {
+        return number.startsWith("-") ? -Infinity : Infinity;
+      }
+      if (/nan$/.test(number)) {
+        return NaN;
+      }
+      // Number() doesn't accept a sign before 0x/0o/0b
+      return number.startsWith("-") ? -Number(number.slice(1)) : Number(number.replace(/^\+/, ""));
+    }
+
+    return fail(`Expected a value but found ${describe(pos)}`);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Document
+  // ---------------------------------------------------------------------------
+
+  const root: TomlTable = {};
+  let current = root;
+
+  const parseHeader = (): void => {
+    const offset = pos;
+    const isArray = text.startsWith("[[", pos);
+    pos += isArray ? 2 : 1;
+    skipSpaces();
+    const parts = parseKey();
+    const close = isArray ? "]]" : "]";
+    if (!text.startsWith(close, pos)) {
+      fail(`Expected "${close}" but found ${describe(pos)}`);
+    }
+    pos += close.length;
+
+    const parent = descend(root, parts.slice(0, -1), offset);
+    const key = parts[parts.length - 1];
+    const existing = Object.hasOwn(parent, key) ? parent[key] : undefined;
+
+    if (isArray) {
+      const array = existing ?? [];
+      if (!Array.isArray(array) || (existing !== undefined && !tableArrays.has(array))) {
+        fail(`Key "${parts.join(".")}" is already defined as a value`, offset);
+      }
+      const table: TomlTable = {};
+      (array as unknown[]).push(table);
+      if (existing === undefined) {
+        define(parent, key, array);
+        tableArrays.add(array as unknown[]);
+      }
+      current = table;
+      return;
+    }
+
+    if (existing === undefined) {
+      current = {};
+      define(parent, key, current);
+    } else if (isTable(existing) && !closed.has(existing) && !defined.has(existing)) {
+      current = existing;
+    } else {
+      fail(`Table "${parts.join(".")}" is already defined`, offset);
+    }
+    defined.add(current);
+  };
+
+  while (true) {
+    skipBlank();
+    if (pos >= text.length) {
+      break;
+    }
+    if (text[pos] === "[") {
+      parseHeader();
+    } else {
+      parseKeyValue(current);
+    }
+    expectLineEnd();
+  }
+
+  return root;
+}
@@ -13,6 +13,26 @@
  */
 export type FeatureId = string & { readonly __brand: unique symbol };
 
+/**
+ * A FeatureId known to be one of the names in `TFeatures`. It can be used both
+ * as a FeatureId and as the name itself. For the default `string`, this is
+ * just FeatureId.
+ */
+export type TypedFeatureId<TFeatures extends string = string> = FeatureId & TFeatures;
+
+/**
+ * A feature as accepted by the registry and evaluation functions.
+ *
+ * For an untyped registry this is a FeatureId. For a registry typed with the
+ * names of its schema, it is one of those names, so unknown names are type
+ * errors; a FeatureId (e.g. from `featureId()`) is still accepted.
+ *
+ * The names are never inferred from the key itself, only from the registry.
+ */
+export type FeatureKey<TFeatures extends string = string> = NoInfer<
+  string extends TFeatures ? FeatureId : TFeatures | FeatureId
+>;
+
 /**
  * Regex pattern for valid feature IDs.
  * Must be lowercase alphanumeric with hyphens (kebab-case), following Cargo conventions.
@@ -193,15 +213,17 @@ export interface FeatureMetadata {
 /**
  * Definition of a single feature in the schema.
  */
-export interface FeatureDefinition {
+export interface FeatureDefinition<TFeatures extends string = string> {
   /** Unique identifier for this feature */
-  readonly id: FeatureId;
+  readonly id: TypedFeatureId<TFeatures>;
   /** Human-readable name for the feature */
   readonly name?: string;
   /** Human-readable description of the feature */
   readonly description?: string;
   /** Whether this feature is enabled by default */
   readonly defaultEnabled?: boolean;
+  /** Features that are enabled along with this one */
+  readonly implies?: readonly TypedFeatureId<TFeatures>[];
   /** Feature metadata */
   readonly metadata?: FeatureMetadata;
 }
@@ -209,27 +231,31 @@ export interface FeatureDefinition {
 /**
  * Input for defining a feature.
  */
-export interface FeatureDefinitionInput {
+export interface FeatureDefinitionInput<TId extends string = string> {
   /** Unique identifier for this feature */
-  readonly id: string;
+  readonly id: TId;
   /** Human-readable name for the feature */
   readonly name?: string;
   /** Human-readable description of the feature */
   readonly description?: string;
   /** Whether this feature is enabled by default */
   readonly defaultEnabled?: boolean;
+  /** Features that are enabled along with this one (must be in the schema) */
+  readonly implies?: readonly NoInfer<TId>[];
   /** Feature metadata */
   readonly metadata?: FeatureMetadata;
 }
 
 /**
  * A complete feature schema containing all feature definitions.
+ *
+ * `TFeatures` is the union of the feature names, when known (see `buildSchema`).
  */
-export interface FeatureSchema {
+export interface FeatureSchema<TFeatures extends string = string> {
   /** All feature definitions, keyed by feature ID */
-  readonly features: ReadonlyMap<FeatureId, FeatureDefinition>;
+  readonly features: ReadonlyMap<TypedFeatureId<TFeatures>, FeatureDefinition<TFeatures>>;
   /** All feature IDs (features are flat, no hierarchy) */
-  readonly allFeatures: readonly FeatureId[];
+  readonly allFeatures: readonly TypedFeatureId<TFeatures>[];
 }
 
 // =============================================================================
@@ -254,7 +280,10 @@ export interface FeatureConfig {
  * Source from which a feature configuration was loaded.
  */
 export type ConfigSource =
+  | { readonly type: "features.json"; readonly path: string }
+  | { readonly type: "ft-flags.toml"; readonly path: string }
   | { readonly type: "deno.json"; readonly path: string }
+  | { readonly type: "deno.jsonc"; readonly path: string }
   | { readonly type: "package.json"; readonly path: string }
   | { readonly type: "env"; readonly variable: string }
   | { readonly type: "cli"; readonly args: readonly string[] }
@@ -280,6 +309,8 @@ export interface FeatureState {
   readonly enabled: boolean;
   /** Why the feature has its current state */
   readonly reason: FeatureStateReason;
+  /** The enabled feature that implies this one, when `reason` is "implied-by" */
+  readonly impliedBy?: FeatureId;
   /** Source that determined this state */
   readonly source?: ConfigSource;
 }
@@ -293,24 +324,63 @@ export type FeatureStateReason =
   | "default-enabled" // Enabled by default in schema
   | "default-disabled" // Disabled by default (no explicit enable)
   | "enable-all" // Enabled because enableAll was set
-  | "disable-all"; // Disabled because disableAll was set
+  | "disable-all" // Disabled because disableAll was set
+  | "implied-by"; // Enabled because an enabled feature implies it (see impliedBy)
 
 /**
  * A runtime registry of features and their current states.
+ *
+ * `TFeatures` is the union of the feature names of its schema, when known.
+ * A typed registry can be used wherever an untyped one is expected.
  */
-export interface FeatureRegistry {
+export interface FeatureRegistry<TFeatures extends string = string> {
   /** The schema this registry is based on */
-  readonly schema: FeatureSchema;
+  readonly schema: FeatureSchema<TFeatures>;
   /** Current state of each feature */
-  readonly states: ReadonlyMap<FeatureId, FeatureState>;
+  readonly states: ReadonlyMap<TypedFeatureId<TFeatures>, FeatureState>;
   /** The configuration that was used to create this registry */
   readonly config: ResolvedConfig;
 }
 
+/**
+ * A feature whose state changed in a registry update.
+ */
+export interface FeatureStateChange<TFeatures extends string = string> {
+  /** The feature that changed */
+  readonly id: TypedFeatureId<TFeatures>;
+  /** State before the update (undefined if the feature had none) */
+  readonly before?: FeatureState;
+  /** State after the update */
+  readonly after: FeatureState;
+}
+
+/**
+ * A registry returned by an update, with the states that it changed: the
+ * updated feature, and others that were enabled or disabled along with it.
+ */
+export interface FeatureRegistryUpdate<TFeatures extends string = string>
+  extends FeatureRegistry<TFeatures> {
+  /** Every feature whose state changed, in schema order */
+  readonly changes: readonly FeatureStateChange<TFeatures>[];
+}
+
 // =============================================================================
 // Evaluation Types
 // =============================================================================
 
+/**
+ * The feature names of a typed registry or schema.
+ *
+ * @example
+ * ```ts
+ * const registry = createRegistry({ schema: buildSchema([{ id: "fs" }, { id: "env" }]) });
+ * type Name = FeatureNameOf<typeof registry>; // "fs" | "env"
+ * ```
+ */
+export type FeatureNameOf<T> = T extends FeatureRegistry<infer TFeatures> ? TFeatures
+  : T extends FeatureSchema<infer TFeatures> ? TFeatures
+  : never;
+
 /**
  * Result of checking if a feature is enabled.
  */
@@ -397,3 +467,127 @@ export class ConfigLoadError extends FeatureFlagError {
     this.source = source;
   }
 }
+
+/**
+ * Error thrown when a config file is not valid JSON (or JSONC).
+ */
+export class ConfigParseError extends ConfigLoadError {
+  /** Line where parsing stopped (1-based) */
+  readonly line: number;
+  /** Column where parsing stopped (1-based) */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number, source?: string) {
+    super(message, source);
+    this.name = "ConfigParseError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Error thrown when a resolution breaks a mutually exclusive feature group:
+ * more than one member is enabled, or none is in an "exactly-one" group.
+ */
+export class FeatureConflictError extends FeatureFlagError {
+  readonly group: string;
+  /** The enabled members of the group (empty if none is enabled) */
+  readonly features: readonly string[];
+
+  constructor(message: string, group: string, features: readonly string[]) {
+    super(message);
+    this.name = "FeatureConflictError";
+    this.group = group;
+    this.features = features;
+  }
+}
+
+/**
+ * Error thrown when an enabled feature's prerequisites are not met: a feature
+ * it `requires` is not enabled, or a dependency in its `requiredDeps` is missing.
+ */
+export class FeatureRequirementError extends FeatureFlagError {
+  readonly feature: string;
+  /** The missing feature or dependency */
+  readonly requirement: string;
+  readonly kind: "feature" | "dependency";
+
+  constructor(
+    message: string,
+    feature: string,
+    requirement: string,
+    kind: "feature" | "dependency",
+  ) {
+    super(message);
+    this.name = "FeatureRequirementError";
+    this.feature = feature;
+    this.requirement = requirement;
+    this.kind = kind;
+  }
+}
+
+/**
+ * Error thrown when a feature is selected for a target its `when` condition
+ * excludes.
+ */
+export class FeatureUnavailableError extends FeatureFlagError {
+  readonly feature: string;
+  readonly target: string;
+
+  constructor(feature: string, target: string, condition: string) {
+    super(`Feature "${feature}" is not available for target "${target}" (when: ${condition})`);
+    this.name = "FeatureUnavailableError";
+    this.feature = feature;
+    this.target = target;
+  }
+}
+
+/**
+ * Error thrown when disabling a feature that enabled features imply, directly
+ * or through other features.
+ */
+export class FeatureDependentsError extends FeatureFlagError {
+  readonly feature: string;
+  /** The enabled features that imply it, nearest first */
+  readonly dependents: readonly string[];
+
+  constructor(feature: string, dependents: readonly string[]) {
+    super(
+      `Cannot disable feature "${feature}": it is implied by enabled features ${
+        dependents.map((dependent) => `"${dependent}"`).join(", ")
+      }`,
+    );
+    this.name = "FeatureDependentsError";
+    this.feature = feature;
+    this.dependents = dependents;
+  }
+}
+
+/**
+ * Error thrown when profiles extend each other in a cycle.
+ */
+export class ProfileCycleError extends FeatureFlagError {
+  /** The profiles along the cycle, starting and ending with the same one */
+  readonly cycle: readonly string[];
+
+  constructor(cycle: readonly string[]) {
+    super(`Profiles extend each other in a cycle: ${cycle.join(" -> ")}`);
+    this.name = "ProfileCycleError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Error thrown when a cfg expression cannot be parsed.
+ */
+export class CfgParseError extends FeatureFlagError {
+  readonly expression: string;
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at column ${position + 1} in "${expression}"`);
+    this.name = "CfgParseError";
+    this.expression = expression;
+    this.position = position;
+  }
+}
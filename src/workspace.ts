@@ -0,0 +1,576 @@
+/**
+ * @module workspace
+ * Cross-package feature resolution.
+ *
+ * A feature can forward to features of other packages with `pkg:feature`
+ * references (e.g. `"serialization": ["serde:derive"]`). `resolveFeatures`
+ * only looks at a single manifest and skips those references; this module
+ * follows them across a set of manifests and unifies the requested features
+ * per package, the same way Cargo unifies features across a dependency graph.
+ *
+ * The manifests can come from installed dependencies (`loadDependencyManifests`)
+ * or from the members of a Deno, npm or pnpm workspace (`loadWorkspaceManifests`).
+ */
+
+import {
+  effectiveResolveOptions,
+  extractExternalReferences,
+  type FeatureManifest,
+  loadManifestFromDirectory,
+  type ResolvedFeatures,
+  resolveFeatures,
+  type ResolveOptions,
+} from "./manifest.ts";
+import { parseJson } from "./source.ts";
+import { ConfigLoadError } from "./types.ts";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for resolving features across packages.
+ * The base `ResolveOptions` apply to the root package only, except `target`
+ * (or the root profile's target), which every package is resolved for.
+ */
+export interface WorkspaceResolveOptions extends ResolveOptions {
+  /**
+   * Whether referenced packages get their "default" feature enabled
+   * (default: true). Mirrors Cargo, where dependencies keep their default
+   * features unless `default-features = false` is set.
+   */
+  readonly dependencyDefaultFeatures?: boolean;
+}
+
+/**
+ * A `pkg:feature` reference that could not be satisfied.
+ */
+export interface UnresolvedReference {
+  /** Package that contains the reference */
+  readonly fromPackage: string;
+  /** Feature that contains the reference */
+  readonly fromFeature: string;
+  /** Referenced package name */
+  readonly packageName: string;
+  /** Referenced feature name */
+  readonly featureName: string;
+  /** Why the reference could not be satisfied */
+  readonly reason: "missing-package" | "unknown-feature";
+}
+
+/**
+ * Result of resolving features across packages.
+ */
+export interface WorkspaceResolution {
+  /** Name of the root package */
+  readonly root: string;
+
+  /**
+   * Resolved features per package, keyed by package name.
+   * Only the root and packages reached through enabled `pkg:feature`
+   * references are included.
+   *
+   * For dependencies, `enabledBy` records the requesting `pkg:feature`
+   * pairs (e.g. `"@my/app:serialization"`) instead of `"<explicit>"`.
+   */
+  readonly packages: ReadonlyMap<string, ResolvedFeatures>;
+
+  /** References to packages or features that do not exist */
+  readonly unresolved: readonly UnresolvedReference[];
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Resolves features for a root package and every package it forwards
+ * features to via `pkg:feature` references.
+ *
+ * Requests are unified: if two enabled features request different features
+ * of the same package, that package is resolved once with both enabled.
+ * Resolution repeats until no package gains new requests, so chains and
+ * cycles between packages are handled.
+ *
+ * @param root - Name of the root package
+ * @param manifests - Map of package name to manifest (must contain `root`)
+ * @param options - Resolution options (feature selection applies to the root,
+ *   the target to every package)
+ * @returns Per-package resolved features
+ * @throws Error if the root package has no manifest
+ */
+export function resolveWorkspaceFeatures(
+  root: string,
+  manifests: ReadonlyMap<string, FeatureManifest>,
+  options: WorkspaceResolveOptions = {},
+): WorkspaceResolution {
+  const rootManifest = manifests.get(root);
+  if (!rootManifest) {
+    throw new Error(`No manifest found for root package "${root}"`);
+  }
+
+  const noDefaultFeatures = options.dependencyDefaultFeatures === false;
+  const target = effectiveResolveOptions(rootManifest, options).target;
+
+  // Requested features per dependency, with the pkg:feature pairs requesting them
+  const requests = new Map<string, Map<string, Set<string>>>();
+  const packages = new Map<string, ResolvedFeatures>();
+  const missing = new Map<string, UnresolvedReference>();
+
+  const resolvePackage = (name: string): ResolvedFeatures => {
+    const manifest = manifests.get(name)!;
+    const requested = requests.get(name) ?? new Map<string, Set<string>>();
+
+    // The root keeps the caller's selection; dependencies only get what was requested
+    const explicit = name === root ? options.features ?? [] : [];
+    const resolved = resolveFeatures(manifest, {
+      features: [...new Set([...explicit, ...requested.keys()])],
+      noDefaultFeatures: name === root ? options.noDefaultFeatures : noDefaultFeatures,
+      allFeatures: name === root ? options.allFeatures : undefined,
+      target,
+      profile: name === root ? options.profile : undefined,
+    });
+
+    // Replace the generic "<explicit>" reason with the requesting references
+    const enabledBy = new Map<string, readonly string[]>();
+    for (const [feature, reasons] of resolved.enabledBy) {
+      const requesters = requested.get(feature);
+      if (!requesters) {
+        enabledBy.set(feature, reasons);
+        continue;
+      }
+      const keepExplicit = explicit.includes(feature);
+      enabledBy.set(
+        feature,
+        reasons.flatMap((r) =>
+          r === "<explicit>" ? [...(keepExplicit ? [r] : []), ...requesters] : [r]
+        ),
+      );
+    }
+
+    return { ...resolved, enabledBy };
+  };
+
+  const queue: string[] = [root];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    const resolved = resolvePackage(name);
+    packages.set(name, resolved);
+
+    for (const ref of extractExternalReferences(resolved.manifest)) {
+      if (ref.type !== "pkg-feature" || !ref.featureName || !resolved.enabled.has(ref.feature)) {
+        continue;
+      }
+
+      if (!manifests.has(ref.packageName)) {
+        const key = `${name}\0${ref.reference}`;
+        if (!missing.has(key)) {
+          missing.set(key, {
+            fromPackage: name,
+            fromFeature: ref.feature,
+            packageName: ref.packageName,
+            featureName: ref.featureName,
+            reason: "missing-package",
+          });
+        }
+        continue;
+      }
+
+      const requested = requests.get(ref.packageName) ?? new Map<string, Set<string>>();
+      requests.set(ref.packageName, requested);
+
+      const isNewFeature = !requested.has(ref.featureName);
+      const requesters = requested.get(ref.featureName) ?? new Set<string>();
+      const requester = `${name}:${ref.feature}`;
+      const isNewRequester = !requesters.has(requester);
+      requesters.add(requester);
+      requested.set(ref.featureName, requesters);
+
+      const needsResolve = isNewFeature || isNewRequester || !packages.has(ref.packageName);
+      if (needsResolve && !queue.includes(ref.packageName)) {
+        queue.push(ref.packageName);
+      }
+    }
+  }
+
+  // Requests for features the target package does not declare
+  const unknown: UnresolvedReference[] = [];
+  for (const [name, requested] of requests) {
+    const manifest = manifests.get(name)!;
+    for (const [feature, requesters] of requested) {
+      if (manifest.features.has(feature)) {
+        continue;
+      }
+      for (const requester of requesters) {
+        const separator = requester.lastIndexOf(":");
+        unknown.push({
+          fromPackage: requester.slice(0, separator),
+          fromFeature: requester.slice(separator + 1),
+          packageName: name,
+          featureName: feature,
+          reason: "unknown-feature",
+        });
+      }
+    }
+  }
+
+  return {
+    root,
+    packages,
+    unresolved: [...missing.values(), ...unknown],
+  };
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Returns the directory part of a path ("." if there is none).
+ */
+function dirname(path: string): string {
+  const index = path.lastIndexOf("/");
+  if (index === -1) return ".";
+  if (index === 0) return "/";
+  return path.slice(0, index);
+}
+
+/**
+ * Returns the directory and its ancestors, nearest first.
+ */
+function ancestors(dir: string): string[] {
+  const dirs = [dir];
+  let current = dir;
+  while (current !== "/" && current !== "." && current !== "") {
+    current = dirname(current);
+    dirs.push(current);
+  }
+  return dirs;
+}
+
+/**
+ * Loads the manifest of an installed package from the first `node_modules`
+ * directory (walking up from `fromDir`) that contains it.
+ */
+async function loadInstalledManifest(
+  packageName: string,
+  fromDir: string,
+): Promise<FeatureManifest | null> {
+  const candidates = ancestors(fromDir).map((dir) => `${dir}/node_modules/${packageName}`);
+
+  const manifests = await Promise.all(candidates.map(loadManifestFromDirectory));
+
+  return manifests.find((m) => m !== null) ?? null;
+}
+
+/**
+ * Loads the manifests of all packages reachable from a root manifest through
+ * `pkg:feature` references.
+ *
+ * Packages are looked up in `node_modules` directories, starting next to the
+ * referencing manifest and walking up. Packages without a features config are
+ * left out of the result.
+ *
+ * @param root - The root manifest (should have a `name` and `source.path`)
+ * @param rootName - Name to use for the root if the manifest has none
+ * @returns Map of package name to manifest, including the root
+ */
+export async function loadDependencyManifests(
+  root: FeatureManifest,
+  rootName: string = root.name ?? "<root>",
+): Promise<Map<string, FeatureManifest>> {
+  const manifests = new Map<string, FeatureManifest>([[rootName, root]]);
+  const attempted = new Set<string>([rootName]);
+
+  const visit = async (manifest: FeatureManifest): Promise<void> => {
+    const fromDir = dirname(manifest.source?.path ?? "./package.json");
+    const names = new Set(
+      extractExternalReferences(manifest)
+        .filter((ref) => ref.type === "pkg-feature")
+        .map((ref) => ref.packageName),
+    );
+
+    const pending = [...names].filter((name) => !attempted.has(name));
+    for (const name of pending) {
+      attempted.add(name);
+    }
+
+    const loaded = await Promise.all(
+      pending.map((name) => loadInstalledManifest(name, fromDir)),
+    );
+
+    const next: FeatureManifest[] = [];
+    for (let i = 0; i < pending.length; i++) {
+      const dep = loaded[i];
+      if (dep) {
+        manifests.set(pending[i], dep);
+        next.push(dep);
+      }
+    }
+
+    await Promise.all(next.map(visit));
+  };
+
+  await visit(root);
+  return manifests;
+}
+
+// =============================================================================
+// Workspace Discovery
+// =============================================================================
+
+/**
+ * Joins a directory and a relative path.
+ */
+function joinPath(dir: string, path: string): string {
+  return dir === "." ? path : `${dir}/${path}`;
+}
+
+/**
+ * Reads a text file, or returns null if it does not exist.
+ */
+async function readTextIfExists(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw new ConfigLoadError(
+      `Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      path,
+    );
+  }
+}
+
+/**
+ * Reads a JSON config file, or returns null if it does not exist.
+ */
+async function readJsonIfExists(
+  path: string,
+  comments: boolean,
+): Promise<Record<string, unknown> | null> {
+  const content = await readTextIfExists(path);
+  return content === null
+    ? null
+    : parseJson(content, { comments, path }) as Record<string, unknown>;
+}
+
+/**
+ * Keeps the string entries of a config value that should be a list.
+ */
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Extracts the `packages` list from a pnpm-workspace.yaml.
+ *
+ * Only the block list form used by pnpm is supported:
+ *
+ * ```yaml
+ * packages:
+ *   - "packages/*"
+ *   - "!packages/internal"
+ * ```
+ */
+function parsePnpmWorkspacePackages(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(/\s+#.*$/, "").trimEnd();
+    if (line.trim() === "" || line.trimStart().startsWith("#")) {
+      continue;
+    }
+    if (!/^\s/.test(line)) {
+      inPackages = /^packages\s*:\s*$/.test(line);
+      continue;
+    }
+    const item = /^\s+-\s+(.+)$/.exec(line);
+    if (inPackages && item) {
+      patterns.push(item[1].trim().replace(/^(["'])(.*)\1$/, "$2"));
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Reads the member patterns of a workspace root: `workspace` in deno.json
+ * (or deno.jsonc), `workspaces` in package.json (an array, or `{ packages }`
+ * as in Yarn) and `packages` in pnpm-workspace.yaml.
+ *
+ * @returns The patterns, or null if the directory is not a workspace root
+ */
+async function readWorkspacePatterns(rootDir: string): Promise<string[] | null> {
+  const [denoJson, denoJsonc, packageJson, pnpmYaml] = await Promise.all([
+    readJsonIfExists(joinPath(rootDir, "deno.json"), true),
+    readJsonIfExists(joinPath(rootDir, "deno.jsonc"), true),
+    readJsonIfExists(joinPath(rootDir, "package.json"), false),
+    readTextIfExists(joinPath(rootDir, "pnpm-workspace.yaml")),
+  ]);
+
+  const sources: unknown[] = [];
+  const denoConfig = denoJson ?? denoJsonc;
+  if (denoConfig && "workspace" in denoConfig) {
+    const workspace = denoConfig.workspace;
+    sources.push(
+      Array.isArray(workspace) ? workspace : (workspace as { members?: unknown })?.members,
+    );
+  }
+  if (packageJson && "workspaces" in packageJson) {
+    const workspaces = packageJson.workspaces;
+    sources.push(
+      Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown })?.packages,
+    );
+  }
+  if (pnpmYaml !== null) {
+    sources.push(parsePnpmWorkspacePackages(pnpmYaml));
+  }
+
+  return sources.length > 0 ? sources.flatMap(stringList) : null;
+}
+
+/**
+ * Lists the subdirectories of a directory, leaving out `node_modules` and
+ * hidden directories.
+ */
+async function listSubdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await Array.fromAsync(Deno.readDir(dir));
+    return entries
+      .filter((e) => e.isDirectory && e.name !== "node_modules" && !e.name.startsWith("."))
+      .map((e) => e.name)
+      .sort();
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound || error instanceof Deno.errors.NotADirectory) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Converts one path segment of a glob (`*`, `?` and `[...]`) to a RegExp.
+ */
+function segmentRegExp(segment: string): RegExp {
+  const source = segment
+    .replace(/[.+^${}()|\\]/g, "\\$&")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Finds the directories below `dir` that match the remaining glob segments.
+ * `**` matches any number of directories.
+ */
+async function matchDirectories(dir: string, segments: readonly string[]): Promise<string[]> {
+  if (segments.length === 0) {
+    return [dir];
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === "" || segment === ".") {
+    return matchDirectories(dir, rest);
+  }
+
+  if (segment === "**") {
+    const children = await listSubdirectories(dir);
+    const matches = await Promise.all([
+      matchDirectories(dir, rest),
+      ...children.map((child) => matchDirectories(joinPath(dir, child), segments)),
+    ]);
+    return matches.flat();
+  }
+
+  if (!/[*?[]/.test(segment)) {
+    const path = joinPath(dir, segment);
+    const stat = await Deno.stat(path).catch(() => null);
+    return stat?.isDirectory ? matchDirectories(path, rest) : [];
+  }
+
+  const pattern = segmentRegExp(segment);
+  const children = (await listSubdirectories(dir)).filter((child) => pattern.test(child));
+  const matches = await Promise.all(
+    children.map((child) => matchDirectories(joinPath(dir, child), rest)),
+  );
+  return matches.flat();
+}
+
+/**
+ * Finds the member directories of a Deno, npm, Yarn or pnpm workspace.
+ *
+ * Patterns may use `*`, `?` and `**`; patterns starting with `!` exclude
+ * directories matched by the others.
+ *
+ * @param rootDir - The workspace root (default: current directory)
+ * @returns Member directories (sorted), or null if `rootDir` is not a workspace root
+ * @throws ConfigLoadError if a workspace config file cannot be read or parsed
+ */
+export async function discoverWorkspaceMembers(rootDir: string = "."): Promise<string[] | null> {
+  const patterns = await readWorkspacePatterns(rootDir);
+  if (patterns === null) {
+    return null;
+  }
+
+  const expand = (pattern: string): Promise<string[]> =>
+    matchDirectories(rootDir, pattern.replace(/\/+$/, "").split("/"));
+
+  const [included, excluded] = await Promise.all([
+    Promise.all(patterns.filter((p) => !p.startsWith("!")).map(expand)),
+    Promise.all(patterns.filter((p) => p.startsWith("!")).map((p) => expand(p.slice(1)))),
+  ]);
+
+  const skip = new Set([rootDir, ...excluded.flat()]);
+  return [...new Set(included.flat())].filter((dir) => !skip.has(dir)).sort();
+}
+
+/**
+ * Loads the manifests of a workspace root and its members.
+ *
+ * Packages are keyed by their `name`, or by their directory if they have
+ * none. The root comes first, then members in directory order. Packages
+ * without a features config are left out. The result can be passed to
+ * `resolveWorkspaceFeatures`.
+ *
+ * @param rootDir - The workspace root (default: current directory)
+ * @returns Map of package name to manifest, or null if `rootDir` is not a workspace root
+ * @throws ConfigLoadError if a config file cannot be read or parsed, or two
+ *   members have the same name
+ */
+export async function loadWorkspaceManifests(
+  rootDir: string = ".",
+): Promise<Map<string, FeatureManifest> | null> {
+  const members = await discoverWorkspaceMembers(rootDir);
+  if (members === null) {
+    return null;
+  }
+
+  const dirs = [rootDir, ...members];
+  const loaded = await Promise.all(dirs.map(loadManifestFromDirectory));
+
+  const manifests = new Map<string, FeatureManifest>();
+  const dirsByName = new Map<string, string>();
+  for (let i = 0; i < dirs.length; i++) {
+    const manifest = loaded[i];
+    if (!manifest) {
+      continue;
+    }
+
+    const relative = i === 0 ? "." : dirs[i].slice(rootDir === "." ? 0 : rootDir.length + 1);
+    const name = manifest.name ?? relative;
+    const existing = dirsByName.get(name);
+    if (existing !== undefined) {
+      throw new ConfigLoadError(
+        `Workspace members "${existing}" and "${dirs[i]}" are both named "${name}"`,
+        manifest.source?.path,
+      );
+    }
+    dirsByName.set(name, dirs[i]);
+    manifests.set(name, manifest);
+  }
+
+  return manifests;
+}
@@ -0,0 +1,191 @@
+/**
+ * Tests for the cfg expression parser and evaluator
+ *
+ * @module
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+
+import {
+  cfgFeatures,
+  cfgTargets,
+  evaluateCfg,
+  explainCfg,
+  formatCfg,
+  parseCfg,
+} from "../src/cfg.ts";
+import { parseManifest, resolveFeatures } from "../src/manifest.ts";
+import { createRegistry } from "../src/registry.ts";
+import { buildSchema } from "../src/schema.ts";
+import { CfgParseError } from "../src/types.ts";
+
+// =============================================================================
+// parseCfg Tests
+// =============================================================================
+
+describe("parseCfg", () => {
+  it("should parse a feature predicate", () => {
+    assertEquals(parseCfg('feature("fs")'), {
+      kind: "feature",
+      name: "fs",
+      span: { start: 0, end: 13 },
+    });
+  });
+
+  it("should accept single quotes", () => {
+    const expr = parseCfg("feature('fs')");
+    assertEquals(expr.kind === "feature" && expr.name, "fs");
+  });
+
+  it("should parse nested combinators with spans", () => {
+    const input = 'all(feature("std"), not(feature("legacy")))';
+    const expr = parseCfg(input);
+
+    assertEquals(expr.kind, "all");
+    if (expr.kind !== "all") return;
+    assertEquals(expr.span, { start: 0, end: input.length });
+    assertEquals(expr.args.length, 2);
+
+    const not = expr.args[1];
+    assertEquals(not.kind, "not");
+    assertEquals(input.slice(not.span.start, not.span.end), 'not(feature("legacy"))');
+  });
+
+  it("should allow whitespace, newlines and trailing commas", () => {
+    const expr = parseCfg(' any(\n  feature("a"),\n  feature("b"),\n) ');
+    assertEquals(formatCfg(expr), 'any(feature("a"), feature("b"))');
+  });
+
+  it("should accept empty all() and any()", () => {
+    assertEquals(formatCfg(parseCfg("all()")), "all()");
+    assertEquals(formatCfg(parseCfg("any( )")), "any()");
+  });
+
+  it("should reject unknown predicates", () => {
+    const error = assertThrows(() => parseCfg('os("linux")'), CfgParseError);
+    assertEquals(error.position, 0);
+  });
+
+  it("should reject not() with the wrong number of arguments", () => {
+    assertThrows(() => parseCfg('not(feature("a"), feature("b"))'), CfgParseError, "exactly one");
+    assertThrows(() => parseCfg("not()"), CfgParseError, "exactly one");
+  });
+
+  it("should report the position of syntax errors", () => {
+    const error = assertThrows(() => parseCfg('all(feature("a") feature("b"))'), CfgParseError);
+    assertEquals(error.position, 17);
+    assertEquals(error.message.includes("column 18"), true);
+  });
+
+  it("should reject unterminated input", () => {
+    assertThrows(() => parseCfg('all(feature("a")'), CfgParseError, "Unterminated");
+    assertThrows(() => parseCfg('feature("a'), CfgParseError, "Unterminated string");
+    assertThrows(() => parseCfg(""), CfgParseError, "end of expression");
+  });
+
+  it("should reject trailing input", () => {
+    assertThrows(() => parseCfg('feature("a") x'), CfgParseError, "Unexpected");
+  });
+});
+
+// =============================================================================
+// evaluateCfg Tests
+// =============================================================================
+
+describe("evaluateCfg", () => {
+  const manifest = parseManifest({
+    features: {
+      default: ["std"],
+      std: ["fs"],
+      fs: [],
+      legacy: [],
+    },
+  });
+  const resolved = resolveFeatures(manifest);
+
+  it("should evaluate against resolved features", () => {
+    assertEquals(evaluateCfg('feature("fs")', resolved), true);
+    assertEquals(evaluateCfg('feature("legacy")', resolved), false);
+    assertEquals(evaluateCfg('all(feature("std"), not(feature("legacy")))', resolved), true);
+    assertEquals(evaluateCfg('any(feature("legacy"), feature("nope"))', resolved), false);
+  });
+
+  it("should evaluate against a registry", () => {
+    const registry = createRegistry({
+      schema: buildSchema([{ id: "fs" }, { id: "env" }]),
+      config: { enabled: ["fs"] },
+    });
+
+    assertEquals(evaluateCfg('all(feature("fs"), not(feature("env")))', registry), true);
+    assertEquals(evaluateCfg('feature("env")', registry), false);
+  });
+
+  it("should evaluate against a predicate", () => {
+    const expr = parseCfg('any(feature("a"), feature("b"))');
+    assertEquals(evaluateCfg(expr, (name) => name === "b"), true);
+    assertEquals(evaluateCfg(expr, () => false), false);
+  });
+
+  it("should evaluate target() against the resolved target", () => {
+    const forNode = resolveFeatures(manifest, { target: "node" });
+    assertEquals(evaluateCfg('target("node")', forNode), true);
+    assertEquals(evaluateCfg('all(target("node"), feature("fs"))', forNode), true);
+    assertEquals(evaluateCfg('target("browser")', forNode), false);
+
+    // No target: target() is always false
+    assertEquals(evaluateCfg('target("node")', resolved), false);
+    // An explicit target wins
+    assertEquals(evaluateCfg('target("deno")', forNode, { target: "deno" }), true);
+    assertEquals(evaluateCfg('target("deno")', () => true, { target: "deno" }), true);
+  });
+
+  it("should treat empty all() as true and empty any() as false", () => {
+    assertEquals(evaluateCfg("all()", resolved), true);
+    assertEquals(evaluateCfg("any()", resolved), false);
+  });
+});
+
+// =============================================================================
+// explainCfg Tests
+// =============================================================================
+
+describe("explainCfg", () => {
+  it("should record the value of every sub-term", () => {
+    const evaluation = explainCfg(
+      'all(feature("a"), not(feature("b")))',
+      (name) => name === "a" || name === "b",
+    );
+
+    assertEquals(evaluation.value, false);
+    assertEquals(evaluation.children.map((c) => c.value), [true, false]);
+    assertEquals(evaluation.children[1].children[0].value, true);
+  });
+
+  it("should not short-circuit", () => {
+    const evaluation = explainCfg('any(feature("a"), feature("b"))', () => true);
+    assertEquals(evaluation.children.length, 2);
+  });
+});
+
+// =============================================================================
+// cfgFeatures Tests
+// =============================================================================
+
+describe("cfgFeatures", () => {
+  it("should list referenced features once, in order", () => {
+    const expr = parseCfg('any(feature("b"), all(feature("a"), not(feature("b"))))');
+    assertEquals(cfgFeatures(expr), ["b", "a"]);
+  });
+});
+
+describe("cfgTargets", () => {
+  it("should list referenced targets once, in order", () => {
+    const expr = parseCfg(
+      'any(target("node"), all(feature("fs"), target("deno"), target("node")))',
+    );
+    assertEquals(cfgTargets(expr), ["node", "deno"]);
+    assertEquals(cfgFeatures(expr), ["fs"]);
+    assertEquals(formatCfg(parseCfg("target( 'node' )")), 'target("node")');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for generating typed feature modules
+ *
+ * @module
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+
+import { generateFeatureModule } from "../src/codegen.ts";
+import { type FeatureManifest, parseManifest } from "../src/manifest.ts";
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+function createTestManifest(): FeatureManifest {
+  return parseManifest(
+    {
+      features: {
+        default: ["std"],
+        std: ["fs"],
+        fs: [],
+        "async-runtime": [],
+      },
+      metadata: {
+        fs: { description: "File system access" },
+        "async-runtime": { deprecated: true, deprecatedMessage: "Use std" },
+      },
+    },
+    { type: "deno.json", path: "/project/deno.json" },
+  );
+}
+
+// =============================================================================
+// generateFeatureModule Tests
+// =============================================================================
+
+describe("generateFeatureModule", () => {
+  it("should export a union of the declared feature names", () => {
+    const code = generateFeatureModule(createTestManifest());
+
+    assertStringIncludes(
+      code,
+      'export type FeatureName =\n  | "default"\n  | "std"\n  | "fs"\n  | "async-runtime";\n',
+    );
+  });
+
+  it("should export FEATURES with metadata as doc comments", () => {
+    const code = generateFeatureModule(createTestManifest());
+
+    assertStringIncludes(
+      code,
+      [
+        "export const FEATURES = {",
+        '  default: "default",',
+        '  std: "std",',
+        "  /** File system access */",
+        '  fs: "fs",',
+        "  /** @deprecated Use std */",
+        '  "async-runtime": "async-runtime",',
+        "} as const;",
+      ].join("\n"),
+    );
+  });
+
+  it("should export typed wrappers around the registry functions", () => {
+    const code = generateFeatureModule(createTestManifest());
+
+    assertStringIncludes(
+      code,
+      "export function isEnabled(\n  registry: FeatureRegistry,\n  name: FeatureName,\n): boolean {",
+    );
+    assertStringIncludes(
+      code,
+      "export function requireFeature(\n  registry: FeatureRegistry,\n  name: FeatureName,\n): void {",
+    );
+    assertStringIncludes(code, 'from "@hiisi/ft-flags";');
+  });
+
+  it("should name the config file but not its directory", () => {
+    const code = generateFeatureModule(createTestManifest());
+    assertEquals(
+      code.split("\n")[0],
+      "// Generated by `ft-flags codegen` from deno.json. Do not edit.",
+    );
+  });
+
+  it("should import from a custom module", () => {
+    const code = generateFeatureModule(createTestManifest(), { importFrom: "npm:ft-flags" });
+    assertStringIncludes(code, 'from "npm:ft-flags";');
+  });
+
+  it("should keep descriptions from closing the doc comment", () => {
+    const manifest = parseManifest({
+      features: { fs: [] },
+      metadata: { fs: { description: "Reads */tmp" } },
+    });
+    assertStringIncludes(generateFeatureModule(manifest), "/** Reads *\\/tmp */");
+  });
+
+  it("should handle manifests without features", () => {
+    const code = generateFeatureModule(parseManifest({ features: {} }));
+
+    assertStringIncludes(code, "export type FeatureName = never;");
+    assertStringIncludes(code, "export const FEATURES = {} as const;");
+  });
+
+  it("should put a single feature name on one line", () => {
+    const code = generateFeatureModule(parseManifest({ features: { fs: [] } }));
+    assertStringIncludes(code, 'export type FeatureName = "fs";\n');
+  });
+
+  it("should already be formatted", async () => {
+    const manifests = [
+      createTestManifest(),
+      parseManifest({ features: { fs: [] }, metadata: { fs: { description: "Reads */tmp" } } }),
+      parseManifest({ features: {} }),
+    ];
+    const format = async (code: string, lineWidth: number): Promise<string> => {
+      const child = new Deno.Command(Deno.execPath(), {
+        args: ["fmt", "--ext", "ts", `--line-width=${lineWidth}`, "-"],
+        stdin: "piped",
+        stdout: "piped",
+      }).spawn();
+      const writer = child.stdin.getWriter();
+      await writer.write(new TextEncoder().encode(code));
+      await writer.close();
+      return new TextDecoder().decode((await child.output()).stdout);
+    };
+
+    // At deno fmt's default line width and at this repo's
+    const codes = manifests.map((manifest) => generateFeatureModule(manifest));
+    const formatted = await Promise.all(
+      codes.flatMap((code) => [format(code, 80), format(code, 100)]),
+    );
+    assertEquals(formatted, codes.flatMap((code) => [code, code]));
+  });
+
+  it("should be deterministic", () => {
+    assertEquals(
+      generateFeatureModule(createTestManifest()),
+      generateFeatureModule(createTestManifest()),
+    );
+  });
+});
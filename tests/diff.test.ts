@@ -0,0 +1,167 @@
+/**
+ * Tests for comparing feature resolutions
+ *
+ * @module
+ */
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { afterAll, beforeAll, describe, it } from "@std/testing/bdd";
+
+import { diffResolvedFeatures, isEmptyDiff, loadManifestAtRevision } from "../src/diff.ts";
+import { type FeatureManifest, parseManifest, resolveFeatures } from "../src/manifest.ts";
+import { ConfigLoadError } from "../src/types.ts";
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+function createTestManifest(): FeatureManifest {
+  return parseManifest({
+    features: {
+      default: ["std"],
+      std: ["fs", "env"],
+      full: ["std", "net"],
+      fs: [],
+      env: [],
+      net: ["dep:ky"],
+    },
+  });
+}
+
+// =============================================================================
+// diffResolvedFeatures Tests
+// =============================================================================
+
+describe("diffResolvedFeatures", () => {
+  it("should report added and removed features", () => {
+    const manifest = createTestManifest();
+    const diff = diffResolvedFeatures(
+      resolveFeatures(manifest, { noDefaultFeatures: true, features: ["fs"] }),
+      resolveFeatures(manifest, { noDefaultFeatures: true, features: ["env", "net"] }),
+    );
+
+    assertEquals(diff.added, ["env", "net"]);
+    assertEquals(diff.removed, ["fs"]);
+    assertEquals(diff.addedDependencies, ["ky"]);
+    assertEquals(diff.removedDependencies, []);
+  });
+
+  it("should report changed enablers of features enabled on both sides", () => {
+    const manifest = createTestManifest();
+    const diff = diffResolvedFeatures(
+      resolveFeatures(manifest),
+      resolveFeatures(manifest, { noDefaultFeatures: true, features: ["full"] }),
+    );
+
+    assertEquals(diff.added, ["full", "net"]);
+    assertEquals(diff.removed, ["default"]);
+    assertEquals(diff.changed, [{ feature: "std", before: ["default"], after: ["full"] }]);
+  });
+
+  it("should ignore enablers that only changed order", () => {
+    const before = parseManifest({ features: { default: ["a", "b"], a: ["c"], b: ["c"], c: [] } });
+    const after = parseManifest({ features: { default: ["b", "a"], a: ["c"], b: ["c"], c: [] } });
+
+    const diff = diffResolvedFeatures(resolveFeatures(before), resolveFeatures(after));
+    assertEquals(isEmptyDiff(diff), true);
+  });
+
+  it("should compare two versions of a manifest", () => {
+    const before = createTestManifest();
+    const after = parseManifest({
+      features: {
+        default: ["std"],
+        std: ["fs", "env", "net"],
+        full: ["std", "net"],
+        fs: [],
+        env: [],
+        net: ["dep:ky"],
+      },
+    });
+
+    const diff = diffResolvedFeatures(resolveFeatures(before), resolveFeatures(after));
+    assertEquals(diff.added, ["net"]);
+    assertEquals(diff.addedDependencies, ["ky"]);
+    assertEquals(isEmptyDiff(diff), false);
+  });
+});
+
+// =============================================================================
+// loadManifestAtRevision Tests
+// =============================================================================
+
+describe("loadManifestAtRevision", () => {
+  let tempDir: string;
+
+  const git = async (...args: string[]): Promise<void> => {
+    const output = await new Deno.Command("git", {
+      args: ["-C", tempDir, "-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+      stdout: "null",
+      stderr: "null",
+    }).output();
+    if (!output.success) {
+      throw new Error(`git ${args.join(" ")} failed`);
+    }
+  };
+
+  beforeAll(async () => {
+    tempDir = await Deno.makeTempDir({ prefix: "ft-flags-diff-" });
+    await git("init", "-q");
+    await Deno.writeTextFile(
+      `${tempDir}/deno.json`,
+      JSON.stringify({ features: { default: ["std"], std: [] } }),
+    );
+    await git("add", "deno.json");
+    await git("commit", "-q", "-m", "initial");
+    await Deno.writeTextFile(
+      `${tempDir}/deno.json`,
+      JSON.stringify({ features: { default: ["std", "fs"], std: [], fs: [] } }),
+    );
+  });
+
+  afterAll(async () => {
+    if (tempDir) {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+
+  it("should load the manifest as committed", async () => {
+    const manifest = await loadManifestAtRevision(
+      { type: "deno.json", path: `${tempDir}/deno.json` },
+      "HEAD",
+    );
+
+    assertExists(manifest);
+    assertEquals([...manifest.features.keys()], ["default", "std"]);
+    assertEquals(manifest.source?.path, `HEAD:${tempDir}/deno.json`);
+  });
+
+  it("should throw for unknown revisions", async () => {
+    await assertRejects(
+      () => loadManifestAtRevision({ type: "deno.json", path: `${tempDir}/deno.json` }, "nope"),
+      ConfigLoadError,
+      "nope",
+    );
+  });
+
+  it("should throw for inline manifests", async () => {
+    await assertRejects(
+      () => loadManifestAtRevision({ type: "inline" }, "HEAD"),
+      ConfigLoadError,
+    );
+  });
+
+  it("should reject revisions that git would read as options", async () => {
+    await assertRejects(
+      () =>
+        loadManifestAtRevision(
+          { type: "deno.json", path: `${tempDir}/deno.json` },
+          `--output=${tempDir}/written`,
+        ),
+      ConfigLoadError,
+      "Invalid git revision",
+    );
+    const written = await Deno.stat(`${tempDir}/written`).then(() => true, () => false);
+    assertEquals(written, false);
+  });
+});
@@ -122,6 +122,53 @@ const testPackages: TestPackage[] = [
       },
     },
   },
+  // Package G: Mutually exclusive runtimes
+  {
+    name: "pkg-g",
+    config: {
+      name: "@test/pkg-g",
+      version: "0.2.0",
+      features: {
+        default: ["runtime-deno"],
+        "runtime-deno": [],
+        "runtime-node": [],
+        "node-compat": ["runtime-node"],
+      },
+      metadata: {
+        ftFlags: {
+          exclusiveGroups: {
+            runtime: { features: ["runtime-deno", "runtime-node"], mode: "exactly-one" },
+          },
+        },
+      },
+    },
+  },
+  // Package H: Target-conditional features
+  {
+    name: "pkg-h",
+    config: {
+      name: "@test/pkg-h",
+      version: "1.0.0",
+      features: {
+        default: ["std"],
+        std: ["fs"],
+        fs: [],
+        fetch: [],
+      },
+      metadata: {
+        features: {
+          fs: { when: 'any(target("node"), target("deno"))' },
+        },
+        ftFlags: {
+          targetDefaults: { browser: ["fetch"] },
+          profiles: {
+            web: { target: "browser" },
+            "web-minimal": { extends: "web", noDefaultFeatures: true, features: ["fetch"] },
+          },
+        },
+      },
+    },
+  },
 ];
 
 async function createTestPackages(): Promise<string> {
@@ -144,14 +191,25 @@ async function createTestPackages(): Promise<string> {
 async function runCli(
   packagePath: string,
   args: string[],
+  env: Record<string, string> = {},
 ): Promise<{ code: number; output: string }> {
   const cliPath = new URL("../../src/cli.ts", import.meta.url).pathname;
 
   const command = new Deno.Command(Deno.execPath(), {
-    args: ["run", "--allow-read", "--allow-env", cliPath, "--package", packagePath, ...args],
+    args: [
+      "run",
+      "--allow-read",
+      "--allow-write",
+      "--allow-env",
+      "--allow-run",
+      cliPath,
+      "--package",
+      packagePath,
+      ...args,
+    ],
     stdout: "piped",
     stderr: "piped",
-    env: { NO_COLOR: "1" }, // Disable colors for easier testing
+    env: { NO_COLOR: "1", ...env }, // Disable colors for easier testing
   });
 
   const process = await command.output();
@@ -208,6 +266,53 @@ describe("CLI Multi-Package Integration (deno.json)", () => {
     });
   });
 
+  describe("Package A: codegen", () => {
+    it("should print a module with the feature names", async () => {
+      const result = await runCli(`${tempDir}/pkg-a`, ["codegen"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "export type FeatureName =");
+      assertStringIncludes(result.output, '  | "logging"');
+      assertStringIncludes(result.output, 'from "@hiisi/ft-flags";');
+    });
+
+    it("should write the module and check that it is up to date", async () => {
+      const output = `${tempDir}/pkg-a-features.gen.ts`;
+      const write = await runCli(`${tempDir}/pkg-a`, ["codegen", "--output", output]);
+      assertEquals(write.code, 0);
+      assertStringIncludes(write.output, `to ${output}`);
+
+      const check = await runCli(`${tempDir}/pkg-a`, ["codegen", "--output", output, "--check"]);
+      assertEquals(check.code, 0);
+      assertStringIncludes(check.output, `${output} is up to date`);
+    });
+
+    it("should fail the check when the module is stale", async () => {
+      const output = `${tempDir}/pkg-a-stale.gen.ts`;
+      await Deno.writeTextFile(output, 'export type FeatureName = "old";\n');
+
+      const result = await runCli(`${tempDir}/pkg-a`, [
+        "codegen",
+        "--output",
+        output,
+        "--check",
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 1);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "codegen");
+      assertEquals(doc.status, "stale");
+      assertEquals(await Deno.readTextFile(output), 'export type FeatureName = "old";\n');
+    });
+
+    it("should require --output for --check", async () => {
+      const result = await runCli(`${tempDir}/pkg-a`, ["codegen", "--check"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "--output");
+    });
+  });
+
   describe("Package B: Complex dependency chain", () => {
     it("should list all features", async () => {
       const result = await runCli(`${tempDir}/pkg-b`, ["list"]);
@@ -260,6 +365,117 @@ describe("CLI Multi-Package Integration (deno.json)", () => {
     });
   });
 
+  describe("Package B: cfg predicates", () => {
+    it("should exit 0 when the predicate is true", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, [
+        "eval",
+        'all(feature("fs"), not(feature("experimental")))',
+      ]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "is true");
+    });
+
+    it("should exit 1 when the predicate is false", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["eval", 'feature("net")']);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "is false");
+    });
+
+    it("should respect feature selection flags", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, [
+        "eval",
+        'all(feature("net"), not(feature("fs")))',
+        "--no-default-features",
+        "--features",
+        "net",
+      ]);
+      assertEquals(result.code, 0);
+    });
+
+    it("should explain sub-terms", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, [
+        "eval",
+        "--explain",
+        'any(feature("net"), feature("std"))',
+      ]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, '[x] feature("net")');
+      assertStringIncludes(result.output, '[ok] feature("std")');
+    });
+
+    it("should fail on malformed expressions", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["eval", 'all(feature("fs")']);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "column");
+    });
+  });
+
+  describe("Package B: JSON output", () => {
+    it("should emit a versioned resolve document", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["resolve", "--format", "json"]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.version, 1);
+      assertEquals(doc.command, "resolve");
+      assertEquals(doc.options.noDefaultFeatures, false);
+
+      const fs = doc.enabled.find((e: { name: string }) => e.name === "fs");
+      assertEquals(fs.enabledBy, ["std"]);
+      assertEquals(fs.chain, ["default", "std", "fs"]);
+    });
+
+    it("should emit tree nodes", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["tree", "full", "--format", "json"]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "tree");
+      assertEquals(doc.root, "full");
+      assertEquals(doc.nodes[0].name, "full");
+      assertEquals(
+        doc.nodes[0].children.map((c: { name: string }) => c.name),
+        ["std", "net", "experimental"],
+      );
+    });
+
+    it("should keep check exit codes", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["check", "net", "--format", "json"]);
+      assertEquals(result.code, 1);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.enabled, false);
+      assertEquals(doc.defined, true);
+    });
+
+    it("should emit one line per document with ndjson", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["list", "--format", "ndjson"]);
+      assertEquals(result.code, 0);
+
+      const lines = result.output.trim().split("\n");
+      assertEquals(lines.length, 1);
+      assertEquals(JSON.parse(lines[0]).command, "list");
+    });
+
+    it("should reject unknown formats", async () => {
+      const result = await runCli(`${tempDir}/pkg-b`, ["list", "--format", "yaml"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "Unknown output format");
+    });
+  });
+
+  describe("Package F: JSON validation output", () => {
+    it("should include warnings", async () => {
+      const result = await runCli(`${tempDir}/pkg-f`, ["validate", "--format", "json"]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "validate");
+      assertEquals(doc.valid, true);
+      assertEquals(doc.warnings.length > 0, true);
+    });
+  });
+
   describe("Package C: Deep nesting", () => {
     it("should resolve entire chain from default", async () => {
       const result = await runCli(`${tempDir}/pkg-c`, ["resolve"]);
@@ -320,6 +536,189 @@ describe("CLI Multi-Package Integration (deno.json)", () => {
     });
   });
 
+  describe("Package D: why", () => {
+    it("should show every path through the diamond", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["why", "bottom"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "bottom is enabled by 2 paths");
+      assertStringIncludes(result.output, "|-- left");
+      assertStringIncludes(result.output, "`-- right");
+      assertStringIncludes(result.output, "<default>");
+    });
+
+    it("should emit all paths as JSON", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "why",
+        "bottom",
+        "--features",
+        "extra-left",
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "why");
+      assertEquals(doc.paths, [
+        ["<default>", "default", "top", "left", "bottom"],
+        ["<explicit>", "extra-left", "left", "bottom"],
+        ["<default>", "default", "top", "right", "bottom"],
+      ]);
+      assertEquals(doc.tree.name, "bottom");
+    });
+
+    it("should fail for features that are not enabled", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["why", "extra-left"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "not enabled");
+    });
+  });
+
+  describe("Package D: diff", () => {
+    it("should list added and removed features between selections", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "diff",
+        "--from",
+        "--no-default-features --features extra-left",
+        "--to",
+        "--no-default-features --features extra-right",
+      ]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "+ extra-right");
+      assertStringIncludes(result.output, "+ right");
+      assertStringIncludes(result.output, "- extra-left");
+      assertStringIncludes(result.output, "- left");
+      assertStringIncludes(result.output, "~ bottom (left -> right)");
+    });
+
+    it("should report no differences for the same selection", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["diff"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "No differences");
+    });
+
+    it("should emit a diff document", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "diff",
+        "--to",
+        "--features extra-left",
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "diff");
+      assertEquals(doc.added, ["extra-left"]);
+      assertEquals(doc.changed, [{
+        feature: "left",
+        before: ["top"],
+        after: ["top", "extra-left"],
+      }]);
+      assertEquals(doc.from.revision, null);
+    });
+
+    it("should reject selections that are not flags", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["diff", "--from", "top"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "Invalid selection");
+    });
+  });
+
+  describe("Package D: matrix", () => {
+    it("should list distinct combinations", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["matrix", "--mode", "each-feature"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "--no-default-features --features extra-left");
+      assertStringIncludes(result.output, "(default features)");
+    });
+
+    it("should emit a CI-friendly JSON document", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "matrix",
+        "--depth",
+        "1",
+        "--exclude",
+        "top",
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "matrix");
+      assertEquals(doc.options.depth, 1);
+      const flags = doc.combinations.map((c: { flags: string }) => c.flags);
+      assertEquals(flags.includes("--no-default-features --features top"), false);
+      assertEquals(flags.includes("--no-default-features --features bottom"), true);
+    });
+
+    it("should fail for unknown excluded features", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["matrix", "--exclude", "nope"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "nope");
+    });
+  });
+
+  describe("Package D: hack", () => {
+    // Prints the selection it was run with; fails when defaults are disabled
+    const script = "console.log(`FT_FEATURES=${Deno.env.get('FT_FEATURES')}`);" +
+      "Deno.exit(Deno.env.get('FT_NO_DEFAULT_FEATURES') === 'true' ? 1 : 0)";
+
+    it("should run the command once per combination", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "hack",
+        "--combinations",
+        "default;default,extra-left",
+        "--",
+        Deno.execPath(),
+        "eval",
+        script,
+      ]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "==> [1/2] (default features)");
+      assertStringIncludes(result.output, "FT_FEATURES=extra-left");
+      assertStringIncludes(result.output, "2 passed, 0 failed");
+    });
+
+    it("should stop at the first failure", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "hack",
+        "--combinations",
+        "extra-left;default",
+        "--",
+        Deno.execPath(),
+        "eval",
+        script,
+      ]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "--no-default-features --features extra-left (exit 1");
+      assertStringIncludes(result.output, "(default features) (skipped)");
+      assertStringIncludes(result.output, "0 passed, 1 failed, 1 skipped");
+    });
+
+    it("should keep going with --keep-going", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, [
+        "hack",
+        "--combinations",
+        "extra-left;default",
+        "--keep-going",
+        "--",
+        Deno.execPath(),
+        "eval",
+        script,
+      ]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "1 passed, 1 failed");
+    });
+
+    it("should fail without a command", async () => {
+      const result = await runCli(`${tempDir}/pkg-d`, ["hack"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "Missing command");
+    });
+  });
+
   describe("Package E: Cross-package references", () => {
     it("should validate with dep: and pkg:feature references", async () => {
       const result = await runCli(`${tempDir}/pkg-e`, ["validate"]);
@@ -371,6 +770,231 @@ describe("CLI Multi-Package Integration (deno.json)", () => {
     });
   });
 
+  describe("Package G: Exclusive groups", () => {
+    it("should validate and resolve the default runtime", async () => {
+      const validate = await runCli(`${tempDir}/pkg-g`, ["validate"]);
+      assertEquals(validate.code, 0);
+
+      const resolve = await runCli(`${tempDir}/pkg-g`, ["resolve"]);
+      assertEquals(resolve.code, 0);
+      assertStringIncludes(resolve.output, "runtime-deno");
+    });
+
+    it("should fail naming the conflicting enablers", async () => {
+      const result = await runCli(`${tempDir}/pkg-g`, ["resolve", "--features", "node-compat"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'exclusive group "runtime"');
+      assertStringIncludes(result.output, "<default> -> default -> runtime-deno");
+      assertStringIncludes(result.output, "<explicit> -> node-compat -> runtime-node");
+    });
+
+    it("should fail when no runtime is selected", async () => {
+      const result = await runCli(`${tempDir}/pkg-g`, [
+        "list",
+        "--no-default-features",
+        "--enabled",
+      ]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'Exactly one feature in group "runtime"');
+    });
+
+    it("should switch runtimes without defaults", async () => {
+      const result = await runCli(`${tempDir}/pkg-g`, [
+        "check",
+        "runtime-node",
+        "--no-default-features",
+        "--features",
+        "node-compat",
+      ]);
+      assertEquals(result.code, 0);
+    });
+  });
+
+  describe("Package H: Targets", () => {
+    const enabledFor = async (target: string): Promise<string[]> => {
+      const result = await runCli(`${tempDir}/pkg-h`, [
+        "resolve",
+        "--target",
+        target,
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 0);
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.options.target, target);
+      return doc.enabled.map((e: { name: string }) => e.name);
+    };
+
+    it("should resolve per target", async () => {
+      assertEquals(await enabledFor("node"), ["default", "fs", "std"]);
+      assertEquals(await enabledFor("browser"), ["default", "fetch", "std"]);
+    });
+
+    it("should show the target in text output", async () => {
+      const flag = await runCli(`${tempDir}/pkg-h`, ["resolve", "--target", "node"]);
+      assertEquals(flag.code, 0);
+      assertStringIncludes(flag.output, "--target: node");
+
+      const env = await runCli(`${tempDir}/pkg-h`, ["resolve"], { FT_TARGET: "browser" });
+      assertEquals(env.code, 0);
+      assertStringIncludes(env.output, "--target: browser");
+    });
+
+    it("should reject features the target excludes", async () => {
+      const result = await runCli(`${tempDir}/pkg-h`, [
+        "resolve",
+        "--target",
+        "browser",
+        "--features",
+        "fs",
+      ]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'Feature "fs" is not available for target "browser"');
+    });
+
+    it("should evaluate target() in cfg expressions", async () => {
+      const node = await runCli(`${tempDir}/pkg-h`, ["eval", 'target("node")', "--target", "node"]);
+      assertEquals(node.code, 0);
+
+      const none = await runCli(`${tempDir}/pkg-h`, ["eval", 'target("node")']);
+      assertEquals(none.code, 1);
+    });
+  });
+
+  describe("Package H: Profiles", () => {
+    it("should resolve a profile with --profile", async () => {
+      const result = await runCli(`${tempDir}/pkg-h`, [
+        "resolve",
+        "--profile",
+        "web",
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.options.profile, "web");
+      assertEquals(doc.options.target, "browser");
+      assertEquals(doc.enabled.map((e: { name: string }) => e.name), ["default", "fetch", "std"]);
+    });
+
+    it("should report the options the profile expands to", async () => {
+      const result = await runCli(`${tempDir}/pkg-h`, [
+        "resolve",
+        "--profile",
+        "web-minimal",
+        "--format",
+        "json",
+      ]);
+      assertEquals(result.code, 0);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.options, {
+        features: ["fetch"],
+        noDefaultFeatures: true,
+        allFeatures: false,
+        target: "browser",
+        profile: "web-minimal",
+      });
+    });
+
+    it("should read the profile from FT_PROFILE", async () => {
+      const result = await runCli(`${tempDir}/pkg-h`, ["resolve"], { FT_PROFILE: "web-minimal" });
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "fetch");
+      assertStringIncludes(result.output, "--profile: web-minimal");
+      assertStringIncludes(result.output, "--no-default-features: true");
+      assertEquals(result.output.includes("std"), false);
+    });
+
+    it("should fail for unknown profiles", async () => {
+      const result = await runCli(`${tempDir}/pkg-h`, ["resolve", "--profile", "nope"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'Unknown profile "nope" (available: web, web-minimal)');
+    });
+  });
+
+  describe("Workspace", () => {
+    let workspaceDir: string;
+
+    beforeAll(async () => {
+      workspaceDir = `${tempDir}/workspace`;
+      const members: Record<string, unknown> = {
+        "deno.json": { workspace: ["./packages/*"] },
+        "packages/core/deno.json": {
+          name: "@ws/core",
+          features: { default: ["std"], std: [], net: [] },
+        },
+        "packages/app/deno.json": {
+          name: "@ws/app",
+          features: { default: ["@ws/core:std"], cli: [] },
+        },
+        "packages/runtime/deno.json": {
+          name: "@ws/runtime",
+          features: { default: [], deno: [], node: [] },
+          metadata: {
+            ftFlags: {
+              exclusiveGroups: { runtime: { features: ["deno", "node"], mode: "exactly-one" } },
+            },
+          },
+        },
+      };
+
+      await Promise.all(
+        Object.entries(members).map(async ([path, config]) => {
+          const file = `${workspaceDir}/${path}`;
+          await Deno.mkdir(file.slice(0, file.lastIndexOf("/")), { recursive: true });
+          await Deno.writeTextFile(file, JSON.stringify(config, null, 2));
+        }),
+      );
+    });
+
+    it("should list features of every member", async () => {
+      const result = await runCli(workspaceDir, ["list", "--workspace"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "==> @ws/app");
+      assertStringIncludes(result.output, "==> @ws/core");
+      assertStringIncludes(result.output, "==> @ws/runtime");
+      assertStringIncludes(result.output, "net");
+    });
+
+    it("should validate every member", async () => {
+      const result = await runCli(workspaceDir, ["validate", "--workspace"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "Configuration is valid");
+    });
+
+    it("should report members that fail to resolve", async () => {
+      const result = await runCli(workspaceDir, ["resolve", "--workspace", "--format", "json"]);
+      assertEquals(result.code, 1);
+
+      const doc = JSON.parse(result.output);
+      assertEquals(doc.command, "workspace");
+      assertEquals(doc.subcommand, "resolve");
+      assertEquals(
+        doc.packages.map((p: { name: string }) => p.name),
+        ["@ws/app", "@ws/core", "@ws/runtime"],
+      );
+      assertEquals(
+        doc.packages[1].document.enabled.map((e: { name: string }) => e.name),
+        ["default", "std"],
+      );
+      assertStringIncludes(doc.packages[2].error, 'Exactly one feature in group "runtime"');
+    });
+
+    it("should fail outside a workspace root", async () => {
+      const result = await runCli(`${tempDir}/pkg-a`, ["list", "--workspace"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "No workspace found");
+    });
+
+    it("should reject commands that don't support --workspace", async () => {
+      const result = await runCli(workspaceDir, ["tree", "--workspace"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, "--workspace is not supported for 'tree'");
+    });
+  });
+
   describe("Cross-package validation", () => {
     it("should handle multiple packages in sequence", async () => {
       const packages = ["pkg-a", "pkg-b", "pkg-c", "pkg-d", "pkg-e", "pkg-f"];
@@ -408,5 +1032,67 @@ describe("CLI Multi-Package Integration (deno.json)", () => {
       assertEquals(result.code, 1);
       assertStringIncludes(result.output, "not");
     });
+
+    it("should report where a config file fails to parse", async () => {
+      const dir = `${tempDir}/broken`;
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(`${dir}/deno.json`, '{\n  "features": {\n    "default": [\n}');
+
+      const result = await runCli(dir, ["list"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, `${dir}/deno.json:4:1`);
+    });
+  });
+
+  describe("deno.jsonc", () => {
+    it("should load a deno.jsonc with comments", async () => {
+      const dir = `${tempDir}/jsonc`;
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${dir}/deno.jsonc`,
+        '{\n  // Features\n  "features": {\n    "default": ["std"], /* core */\n    "std": [],\n  },\n}',
+      );
+
+      const result = await runCli(dir, ["resolve"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "default, std");
+    });
+  });
+
+  describe("Standalone manifests", () => {
+    it("should load ft-flags.toml before deno.json", async () => {
+      const dir = `${tempDir}/toml`;
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(`${dir}/deno.json`, JSON.stringify({ name: "@test/toml" }));
+      await Deno.writeTextFile(
+        `${dir}/ft-flags.toml`,
+        '# Features\n[features]\ndefault = ["std"]\nstd = ["fs"]\nfs = []\n',
+      );
+
+      const result = await runCli(dir, ["resolve"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "default, fs, std");
+    });
+
+    it("should warn when deno.json also defines features", async () => {
+      const dir = `${tempDir}/shadowed`;
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${dir}/deno.json`,
+        JSON.stringify({ features: { default: ["old"], old: [] } }),
+      );
+      await Deno.writeTextFile(
+        `${dir}/features.json`,
+        JSON.stringify({ features: { default: ["std"], std: [] } }),
+      );
+
+      const result = await runCli(dir, ["validate"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "FT021");
+      assertStringIncludes(
+        result.output,
+        `Features are also defined in ${dir}/deno.json, which is ignored because ${dir}/features.json takes precedence`,
+      );
+    });
   });
 });
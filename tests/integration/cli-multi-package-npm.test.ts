@@ -79,6 +79,7 @@ const testPackages: TestPackage[] = [
       version: "0.8.0",
       peerDependencies: {
         react: "^18.0.0",
+        "framer-motion": "^11.0.0",
       },
       features: {
         default: ["components"],
@@ -133,7 +134,7 @@ const testPackages: TestPackage[] = [
         http: ["dep:node-fetch"],
         "cloud-logging": ["dep:@google-cloud/logging"],
         structured: ["console"],
-        "full-logging": ["console", "file", "http", "structured"],
+        "full-logging": ["file", "http", "structured"],
       },
       optionalDependencies: {
         "fs-extra": "^11.0.0",
@@ -174,6 +175,57 @@ const testPackages: TestPackage[] = [
       },
     },
   },
+  // Package H: Implicit features for optional dependencies
+  {
+    name: "npm-pkg-h",
+    config: {
+      name: "implicit-deps",
+      version: "1.0.0",
+      features: {
+        default: ["compression"],
+        compression: ["dep:zlib-sync"],
+      },
+      optionalDependencies: {
+        "zlib-sync": "^0.1.0",
+        chalk: "^5.0.0",
+      },
+      metadata: {
+        ftFlags: {
+          implicitFeatures: true,
+        },
+      },
+    },
+  },
+  // Package I: Feature prerequisites
+  {
+    name: "npm-pkg-i",
+    config: {
+      name: "db-client",
+      version: "2.1.0",
+      features: {
+        default: ["postgres"],
+        postgres: [],
+        sqlite: ["dep:better-sqlite3"],
+        mysql: [],
+        pool: [],
+        "pool-metrics": [],
+      },
+      dependencies: {
+        pg: "^8.0.0",
+      },
+      optionalDependencies: {
+        "better-sqlite3": "^9.0.0",
+      },
+      metadata: {
+        features: {
+          postgres: { requiredDeps: ["pg"] },
+          sqlite: { requiredDeps: ["better-sqlite3"] },
+          mysql: { requiredDeps: ["mysql2"] },
+          "pool-metrics": { requires: ["pool"] },
+        },
+      },
+    },
+  },
 ];
 
 async function createTestPackages(): Promise<string> {
@@ -397,6 +449,13 @@ describe("CLI Multi-Package Integration (package.json)", () => {
       assertStringIncludes(result.output, "http");
       assertStringIncludes(result.output, "structured");
     });
+
+    it("should report activated optional dependencies", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-e`, ["resolve", "--features", "file"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "Activated dependencies");
+      assertStringIncludes(result.output, "fs-extra (by: file)");
+    });
   });
 
   describe("npm-pkg-f: Deep transitive chain", () => {
@@ -453,6 +512,67 @@ describe("CLI Multi-Package Integration (package.json)", () => {
     });
   });
 
+  describe("npm-pkg-h: Implicit optional dependency features", () => {
+    it("should list implicit features with a marker", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-h`, ["list"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "chalk -> [dep:chalk] (implicit)");
+    });
+
+    it("should mark implicit features in the tree", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-h`, ["tree"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "chalk (implicit)");
+    });
+
+    it("should activate the dependency when the implicit feature is enabled", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-h`, ["resolve", "--features", "chalk"]);
+      assertEquals(result.code, 0);
+      assertStringIncludes(result.output, "chalk (by: chalk)");
+    });
+  });
+
+  describe("npm-pkg-i: Feature prerequisites", () => {
+    it("should report required dependencies that are not declared", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-i`, ["validate"]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'FT018 Feature "mysql" requires dependency "mysql2"');
+    });
+
+    it("should resolve features whose requirements are met", async () => {
+      const results = await Promise.all([
+        runCli(`${tempDir}/npm-pkg-i`, ["resolve"]),
+        runCli(`${tempDir}/npm-pkg-i`, ["resolve", "--features", "sqlite"]),
+        runCli(`${tempDir}/npm-pkg-i`, ["resolve", "--features", "pool,pool-metrics"]),
+      ]);
+      for (const result of results) {
+        assertEquals(result.code, 0);
+      }
+    });
+
+    it("should fail when a required feature is not selected", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-i`, [
+        "resolve",
+        "--features",
+        "pool-metrics",
+      ]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'requires feature "pool"');
+      assertStringIncludes(result.output, 'enable "pool" as well');
+    });
+
+    it("should fail when a required dependency is missing", async () => {
+      const result = await runCli(`${tempDir}/npm-pkg-i`, [
+        "check",
+        "mysql",
+        "--features",
+        "mysql",
+      ]);
+      assertEquals(result.code, 1);
+      assertStringIncludes(result.output, 'add "mysql2" to the package\'s dependencies');
+    });
+  });
+
   describe("Cross-package operations", () => {
     it("should handle all packages in parallel", async () => {
       const packages = [
@@ -530,6 +650,23 @@ describe("CLI Multi-Package Integration (package.json)", () => {
       const result = await runCli(`${tempDir}/npm-pkg-e`, ["validate"]);
       assertEquals(result.code, 0);
     });
+
+    it("should take dependencies for features.json from package.json", async () => {
+      const dir = `${tempDir}/npm-features-json`;
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${dir}/package.json`,
+        JSON.stringify({ name: "npm-features-json", optionalDependencies: { ky: "^1.0.0" } }),
+      );
+      await Deno.writeTextFile(
+        `${dir}/features.json`,
+        JSON.stringify({ features: { default: [], http: ["dep:ky"] } }),
+      );
+
+      const result = await runCli(dir, ["validate"]);
+      assertEquals(result.code, 0);
+      assertEquals(result.output.includes("FT006"), false);
+    });
   });
 
   describe("Error handling", () => {
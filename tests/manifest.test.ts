@@ -4,21 +4,29 @@
  * @module
  */
 
-import { assertEquals, assertExists } from "@std/assert";
+import { assertEquals, assertExists, assertThrows } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 
 import {
+  buildEnablerTree,
   buildFeatureTree,
   createEmptyManifest,
+  createRegistryFromManifest,
   createSimpleManifest,
   detectCycles,
+  effectiveResolveOptions,
+  expandProfile,
   type FeatureManifest,
   getEnableChain,
+  getEnablePaths,
   isFeatureEnabled,
+  isImplicitFeature,
+  listActivatedDependencies,
   listAvailableFeatures,
   listDisabledFeatures,
   listEnabledFeatures,
   parseManifest,
+  parseManifestText,
   type RawFtFlagsConfig,
   renderFeatureTree,
   resolveFeatures,
@@ -26,6 +34,15 @@ import {
   toRawConfig,
   validateManifest,
 } from "../src/manifest.ts";
+import {
+  FeatureConflictError,
+  FeatureFlagError,
+  featureId,
+  FeatureRequirementError,
+  FeatureUnavailableError,
+  ProfileCycleError,
+} from "../src/types.ts";
+import { getFeatureState, isEnabled, setFeatureState } from "../src/registry.ts";
 
 // =============================================================================
 // Test Fixtures
@@ -133,6 +150,59 @@ describe("parseManifest", () => {
     assertEquals(manifest.metadata.get("myfeature"), undefined);
   });
 
+  it("should create implicit features for optional dependencies when enabled", () => {
+    const manifest = parseManifest(
+      {
+        features: {
+          default: [],
+          async: ["dep:tokio"],
+        },
+        ftFlags: { implicitFeatures: true },
+      },
+      undefined,
+      {
+        optionalDependencies: {
+          tokio: "^1.0.0",
+          serde: "^1.0.0",
+          "@scope/pkg": "^1.0.0",
+        },
+      },
+    );
+
+    // serde is not referenced via dep:, so it gets a feature of its own
+    assertEquals(manifest.features.get("serde"), ["dep:serde"]);
+    assertEquals(isImplicitFeature(manifest, "serde"), true);
+    // tokio is already referenced via dep:
+    assertEquals(manifest.features.has("tokio"), false);
+    // Scoped names are not valid feature names
+    assertEquals(manifest.features.has("@scope/pkg"), false);
+    assertEquals(isImplicitFeature(manifest, "async"), false);
+  });
+
+  it("should not create implicit features unless opted in", () => {
+    const manifest = parseManifest(
+      { features: { default: [] } },
+      undefined,
+      { optionalDependencies: { serde: "^1.0.0" } },
+    );
+
+    assertEquals(manifest.features.has("serde"), false);
+  });
+
+  it("should not override declared features with implicit ones", () => {
+    const manifest = parseManifest(
+      {
+        features: { serde: ["derive"], derive: [] },
+        ftFlags: { implicitFeatures: true },
+      },
+      undefined,
+      { optionalDependencies: { serde: "^1.0.0" } },
+    );
+
+    assertEquals(manifest.features.get("serde"), ["derive"]);
+    assertEquals(isImplicitFeature(manifest, "serde"), false);
+  });
+
   it("should preserve source information", () => {
     const config: RawFtFlagsConfig = {
       features: { test: [] },
@@ -273,6 +343,392 @@ describe("resolveFeatures", () => {
     assertEquals(resolved.enabled.size, 1);
     assertEquals(resolved.enabled.has("args"), true);
   });
+
+  it("should track activated optional dependencies", () => {
+    const manifest = parseManifest({
+      features: {
+        default: ["async"],
+        async: ["dep:tokio"],
+        tracing: ["dep:tokio", "dep:opentelemetry"],
+      },
+    });
+
+    const resolved = resolveFeatures(manifest, { features: ["tracing"] });
+    assertEquals(resolved.activatedDependencies.get("tokio"), ["async", "tracing"]);
+    assertEquals(resolved.activatedDependencies.get("opentelemetry"), ["tracing"]);
+    assertEquals(listActivatedDependencies(resolved), ["opentelemetry", "tokio"]);
+    // dep: entries are not features
+    assertEquals(resolved.enabled.has("dep:tokio"), false);
+  });
+
+  it("should flag activated dependencies missing from optionalDependencies", () => {
+    const manifest = parseManifest(
+      {
+        features: {
+          default: ["async", "tracing"],
+          async: ["dep:tokio"],
+          tracing: ["dep:opentelemetry"],
+        },
+      },
+      undefined,
+      { optionalDependencies: { tokio: "^1.0.0" } },
+    );
+
+    const resolved = resolveFeatures(manifest);
+    assertEquals(resolved.undeclaredDependencies, ["opentelemetry"]);
+  });
+
+  it("should flag dependencies named like inherited object keys", () => {
+    const manifest = parseManifest(
+      { features: { default: ["dep:constructor"] } },
+      undefined,
+      { optionalDependencies: {} },
+    );
+
+    const resolved = resolveFeatures(manifest);
+    assertEquals(resolved.undeclaredDependencies, ["constructor"]);
+  });
+
+  it("should not flag dependencies without dependency info", () => {
+    const manifest = parseManifest({
+      features: { default: ["dep:tokio"] },
+    });
+
+    const resolved = resolveFeatures(manifest);
+    assertEquals(resolved.undeclaredDependencies, []);
+  });
+});
+
+// =============================================================================
+// Exclusive Group Tests
+// =============================================================================
+
+describe("resolveFeatures with exclusive groups", () => {
+  const createRuntimeManifest = (mode?: "at-most-one" | "exactly-one"): FeatureManifest =>
+    parseManifest({
+      features: {
+        default: ["std"],
+        std: [],
+        full: ["std", "runtime-node"],
+        "runtime-deno": [],
+        "runtime-node": [],
+        "runtime-bun": [],
+      },
+      ftFlags: {
+        exclusiveGroups: {
+          runtime: { features: ["runtime-deno", "runtime-node", "runtime-bun"], mode },
+        },
+      },
+    });
+
+  it("should allow one member of the group", () => {
+    const resolved = resolveFeatures(createRuntimeManifest(), { features: ["runtime-deno"] });
+    assertEquals(resolved.enabled.has("runtime-deno"), true);
+  });
+
+  it("should allow no member in an at-most-one group", () => {
+    const resolved = resolveFeatures(createRuntimeManifest());
+    assertEquals(resolved.enabled.has("runtime-deno"), false);
+  });
+
+  it("should name the conflicting enablers", () => {
+    const error = assertThrows(
+      () => resolveFeatures(createRuntimeManifest(), { features: ["full", "runtime-deno"] }),
+      FeatureConflictError,
+    );
+    assertEquals(error.group, "runtime");
+    assertEquals(error.features, ["runtime-deno", "runtime-node"]);
+    assertEquals(
+      error.message,
+      'Features in exclusive group "runtime" cannot be enabled together: ' +
+        '"runtime-deno" (<explicit> -> runtime-deno), ' +
+        '"runtime-node" (<explicit> -> full -> runtime-node)',
+    );
+  });
+
+  it("should require a member in an exactly-one group", () => {
+    const manifest = createRuntimeManifest("exactly-one");
+
+    const error = assertThrows(() => resolveFeatures(manifest), FeatureConflictError);
+    assertEquals(error.features, []);
+    assertEquals(error.message.includes("runtime-deno, runtime-node, runtime-bun"), true);
+
+    const resolved = resolveFeatures(manifest, { features: ["runtime-bun"] });
+    assertEquals(resolved.enabled.has("runtime-bun"), true);
+  });
+
+  it("should reject --all-features", () => {
+    assertThrows(
+      () => resolveFeatures(createRuntimeManifest(), { allFeatures: true }),
+      FeatureConflictError,
+      "<all-features>",
+    );
+  });
+
+  it("should skip malformed groups", () => {
+    const manifest = parseManifest({
+      features: { a: [], b: [] },
+      ftFlags: { exclusiveGroups: { g: ["a", "b"] } },
+    } as unknown as RawFtFlagsConfig);
+
+    const resolved = resolveFeatures(manifest, { features: ["a", "b"] });
+    assertEquals([...resolved.enabled], ["a", "b"]);
+    assertEquals(
+      validateManifest(manifest).diagnostics.some((d) => d.rule === "invalid-exclusive-group"),
+      true,
+    );
+  });
+});
+
+describe("resolveFeatures with requirements", () => {
+  const createDbManifest = (): FeatureManifest =>
+    parseManifest(
+      {
+        features: {
+          default: ["postgres"],
+          postgres: [],
+          sqlite: [],
+          "sqlite-bundled": ["dep:better-sqlite3"],
+          pool: [],
+          "pool-metrics": [],
+        },
+        metadata: {
+          postgres: { requiredDeps: ["pg"] },
+          sqlite: { requiredDeps: ["better-sqlite3"] },
+          "sqlite-bundled": { requiredDeps: ["better-sqlite3"] },
+          "pool-metrics": { requires: ["pool"] },
+        },
+      },
+      undefined,
+      { dependencies: { pg: "^8.0.0" }, optionalDependencies: { "better-sqlite3": "^9.0.0" } },
+    );
+
+  it("should not enable required features automatically", () => {
+    const error = assertThrows(
+      () => resolveFeatures(createDbManifest(), { features: ["pool-metrics"] }),
+      FeatureRequirementError,
+    );
+    assertEquals(error.feature, "pool-metrics");
+    assertEquals(error.requirement, "pool");
+    assertEquals(error.kind, "feature");
+    assertEquals(
+      error.message,
+      'Feature "pool-metrics" (<explicit> -> pool-metrics) requires feature "pool", ' +
+        'which is not enabled; enable "pool" as well',
+    );
+
+    const resolved = resolveFeatures(createDbManifest(), { features: ["pool", "pool-metrics"] });
+    assertEquals(resolved.enabled.has("pool-metrics"), true);
+  });
+
+  it("should require optional dependencies to be activated", () => {
+    const manifest = createDbManifest();
+
+    const error = assertThrows(
+      () => resolveFeatures(manifest, { features: ["sqlite"] }),
+      FeatureRequirementError,
+      'add "dep:better-sqlite3" to feature "sqlite"',
+    );
+    assertEquals(error.kind, "dependency");
+
+    const resolved = resolveFeatures(manifest, { features: ["sqlite", "sqlite-bundled"] });
+    assertEquals(resolved.enabled.has("sqlite"), true);
+  });
+
+  it("should fail for undeclared dependencies", () => {
+    const manifest = parseManifest(
+      { features: { mysql: [] }, metadata: { mysql: { requiredDeps: ["mysql2"] } } },
+      undefined,
+      { dependencies: {} },
+    );
+
+    assertThrows(
+      () => resolveFeatures(manifest, { features: ["mysql"] }),
+      FeatureRequirementError,
+      'add "mysql2" to the package\'s dependencies',
+    );
+  });
+
+  it("should skip dependency checks without dependency info", () => {
+    const manifest = parseManifest({
+      features: { mysql: [] },
+      metadata: { mysql: { requiredDeps: ["mysql2"] } },
+    });
+
+    const resolved = resolveFeatures(manifest, { features: ["mysql"] });
+    assertEquals(resolved.enabled.has("mysql"), true);
+  });
+});
+
+describe("resolveFeatures with a target", () => {
+  const createCrossRuntimeManifest = (): FeatureManifest =>
+    parseManifest({
+      features: {
+        default: ["std"],
+        std: ["fs", "fetch"],
+        fs: [],
+        fetch: [],
+        ffi: [],
+        "node-compat": [],
+      },
+      metadata: {
+        fs: { when: 'any(target("node"), target("deno"), target("bun"))' },
+        ffi: { when: 'target("deno")' },
+      },
+      ftFlags: {
+        targetDefaults: { node: ["node-compat"], deno: ["ffi"] },
+      },
+    });
+
+  it("should ignore conditions without a target", () => {
+    const resolved = resolveFeatures(createCrossRuntimeManifest(), { features: ["ffi"] });
+    assertEquals(listEnabledFeatures(resolved), ["default", "fetch", "ffi", "fs", "std"]);
+  });
+
+  it("should leave out features the target excludes", () => {
+    const resolved = resolveFeatures(createCrossRuntimeManifest(), { target: "browser" });
+    assertEquals(listEnabledFeatures(resolved), ["default", "fetch", "std"]);
+  });
+
+  it("should enable target defaults with the defaults", () => {
+    const manifest = createCrossRuntimeManifest();
+
+    const node = resolveFeatures(manifest, { target: "node" });
+    assertEquals(listEnabledFeatures(node), ["default", "fetch", "fs", "node-compat", "std"]);
+    assertEquals(node.enabledBy.get("node-compat"), ["<target:node>"]);
+    assertEquals(getEnablePaths("node-compat", node), [["<target:node>", "node-compat"]]);
+
+    const deno = resolveFeatures(manifest, { target: "deno", noDefaultFeatures: true });
+    assertEquals(listEnabledFeatures(deno), []);
+  });
+
+  it("should not read inherited keys as target defaults", () => {
+    const resolved = resolveFeatures(createCrossRuntimeManifest(), { target: "constructor" });
+    assertEquals(listEnabledFeatures(resolved), ["default", "fetch", "std"]);
+
+    const registry = createRegistryFromManifest(createCrossRuntimeManifest(), {
+      target: "toString",
+    });
+    assertEquals(registry.schema.features.get(featureId("ffi"))?.defaultEnabled, false);
+  });
+
+  it("should reject selecting a feature the target excludes", () => {
+    const error = assertThrows(
+      () => resolveFeatures(createCrossRuntimeManifest(), { target: "node", features: ["ffi"] }),
+      FeatureUnavailableError,
+    );
+    assertEquals(error.feature, "ffi");
+    assertEquals(error.target, "node");
+    assertEquals(
+      error.message,
+      'Feature "ffi" is not available for target "node" (when: target("deno"))',
+    );
+  });
+
+  it("should skip excluded features with --all-features", () => {
+    const resolved = resolveFeatures(createCrossRuntimeManifest(), {
+      target: "browser",
+      allFeatures: true,
+    });
+    assertEquals(resolved.enabled.has("fs"), false);
+    assertEquals(resolved.enabled.has("ffi"), false);
+    assertEquals(resolved.enabled.has("node-compat"), true);
+  });
+});
+
+describe("resolveFeatures with a profile", () => {
+  const createProfileManifest = (): FeatureManifest =>
+    parseManifest({
+      features: {
+        default: ["std"],
+        std: ["fs", "env"],
+        fs: [],
+        env: [],
+        metrics: [],
+        experimental: [],
+      },
+      ftFlags: {
+        profiles: {
+          minimal: { noDefaultFeatures: true, features: ["env"] },
+          ci: { extends: "minimal", features: ["metrics"] },
+          prod: { extends: ["ci"], noDefaultFeatures: false, target: "node" },
+          loop: { extends: "cycle" },
+          cycle: { extends: "loop" },
+        },
+      },
+    });
+
+  it("should expand profiles through extends", () => {
+    const manifest = createProfileManifest();
+
+    assertEquals(expandProfile(manifest, "ci"), {
+      features: ["env", "metrics"],
+      noDefaultFeatures: true,
+      allFeatures: undefined,
+      target: undefined,
+    });
+    assertEquals(expandProfile(manifest, "prod").noDefaultFeatures, false);
+    assertEquals(expandProfile(manifest, "prod").target, "node");
+  });
+
+  it("should report the options a profile expands to", () => {
+    const manifest = createProfileManifest();
+
+    assertEquals(effectiveResolveOptions(manifest, { profile: "ci", features: ["fs"] }), {
+      features: ["env", "metrics", "fs"],
+      noDefaultFeatures: true,
+      allFeatures: undefined,
+      target: undefined,
+      profile: "ci",
+    });
+    assertEquals(effectiveResolveOptions(manifest, { features: ["fs"] }), { features: ["fs"] });
+  });
+
+  it("should resolve a profile", () => {
+    const resolved = resolveFeatures(createProfileManifest(), { profile: "ci" });
+
+    assertEquals(listEnabledFeatures(resolved), ["env", "metrics"]);
+    assertEquals(resolved.enabledBy.get("metrics"), ["<profile:ci>"]);
+    assertEquals(resolved.target, undefined);
+  });
+
+  it("should apply other options on top of the profile", () => {
+    const manifest = createProfileManifest();
+
+    const resolved = resolveFeatures(manifest, {
+      profile: "ci",
+      features: ["experimental"],
+      noDefaultFeatures: false,
+    });
+    assertEquals(listEnabledFeatures(resolved), [
+      "default",
+      "env",
+      "experimental",
+      "fs",
+      "metrics",
+      "std",
+    ]);
+    assertEquals(resolved.enabledBy.get("experimental"), ["<explicit>"]);
+
+    assertEquals(resolveFeatures(manifest, { profile: "prod" }).target, "node");
+    assertEquals(resolveFeatures(manifest, { profile: "prod", target: "deno" }).target, "deno");
+  });
+
+  it("should reject unknown profiles and cycles", () => {
+    const manifest = createProfileManifest();
+
+    assertThrows(
+      () => resolveFeatures(manifest, { profile: "nope" }),
+      FeatureFlagError,
+      'Unknown profile "nope" (available: minimal, ci, prod, loop, cycle)',
+    );
+    const error = assertThrows(
+      () => expandProfile(manifest, "loop"),
+      ProfileCycleError,
+      "Profiles extend each other in a cycle: loop -> cycle -> loop",
+    );
+    assertEquals(error.cycle, ["loop", "cycle", "loop"]);
+  });
 });
 
 // =============================================================================
@@ -340,6 +796,94 @@ describe("getEnableChain", () => {
   });
 });
 
+// =============================================================================
+// getEnablePaths / buildEnablerTree Tests
+// =============================================================================
+
+describe("getEnablePaths", () => {
+  it("should return null for disabled features", () => {
+    const manifest = createTestManifest();
+    const resolved = resolveFeatures(manifest, { noDefaultFeatures: true });
+
+    assertEquals(getEnablePaths("fs", resolved), null);
+  });
+
+  it("should return every path from a root", () => {
+    const manifest = createTestManifest();
+    const resolved = resolveFeatures(manifest, { features: ["full"] });
+
+    assertEquals(getEnablePaths("fs", resolved), [
+      ["<default>", "default", "std", "fs"],
+      ["<explicit>", "full", "std", "fs"],
+    ]);
+  });
+
+  it("should return a single root for directly requested features", () => {
+    const manifest = createTestManifest();
+    const resolved = resolveFeatures(manifest, { noDefaultFeatures: true, features: ["args"] });
+
+    assertEquals(getEnablePaths("args", resolved), [["<explicit>", "args"]]);
+  });
+
+  it("should cut paths at cycles", () => {
+    const manifest = parseManifest({
+      features: {
+        default: ["a"],
+        a: ["b"],
+        b: ["a"],
+      },
+    });
+    const resolved = resolveFeatures(manifest);
+
+    assertEquals(getEnablePaths("b", resolved), [["<default>", "default", "a", "b"]]);
+  });
+});
+
+describe("buildEnablerTree", () => {
+  it("should return null for disabled features", () => {
+    const manifest = createTestManifest();
+    const resolved = resolveFeatures(manifest, { noDefaultFeatures: true });
+
+    assertEquals(buildEnablerTree("fs", resolved), null);
+  });
+
+  it("should invert the dependency tree", () => {
+    const manifest = createTestManifest();
+    const resolved = resolveFeatures(manifest, { features: ["full"] });
+
+    const tree = buildEnablerTree("fs", resolved);
+    assertExists(tree);
+    assertEquals(
+      renderFeatureTree([tree]),
+      [
+        "`-- fs",
+        "    `-- std",
+        "        |-- default",
+        "        |   `-- <default>",
+        "        `-- full",
+        "            `-- <explicit>",
+      ].join("\n"),
+    );
+  });
+
+  it("should mark circular enablers", () => {
+    const manifest = parseManifest({
+      features: {
+        default: ["a"],
+        a: ["b"],
+        b: ["a"],
+      },
+    });
+    const resolved = resolveFeatures(manifest);
+
+    const tree = buildEnablerTree("a", resolved);
+    assertExists(tree);
+    const circular = tree.children.find((c) => c.name === "b")?.children[0];
+    assertEquals(circular?.name, "a");
+    assertEquals(circular?.isCircular, true);
+  });
+});
+
 // =============================================================================
 // listAvailableFeatures / listEnabledFeatures / listDisabledFeatures Tests
 // =============================================================================
@@ -596,6 +1140,113 @@ describe("toFeatureIdSet", () => {
   });
 });
 
+describe("createRegistryFromManifest", () => {
+  it("should define every feature with its metadata", () => {
+    const manifest = parseManifest({
+      features: { default: ["std"], std: ["fs"], fs: [], legacy: [] },
+      metadata: {
+        fs: { description: "File system access", unstable: true, since: "1.2.0" },
+        legacy: { deprecated: true, deprecatedMessage: "Use fs" },
+      },
+    });
+    const registry = createRegistryFromManifest(manifest);
+
+    assertEquals(registry.schema.allFeatures, ["default", "std", "fs", "legacy"]);
+    const fs = registry.schema.features.get(featureId("fs"));
+    assertEquals(fs?.description, "File system access");
+    assertEquals(fs?.defaultEnabled, false);
+    assertEquals(registry.schema.features.get(featureId("std"))?.implies, ["fs"]);
+    assertEquals(registry.schema.features.get(featureId("default"))?.defaultEnabled, true);
+    assertEquals(fs?.metadata, {
+      description: "File system access",
+      experimental: true,
+      since: "1.2.0",
+    });
+    const legacy = registry.schema.features.get(featureId("legacy"));
+    assertEquals(legacy?.defaultEnabled, false);
+    assertEquals(legacy?.metadata, { deprecated: true, deprecationMessage: "Use fs" });
+  });
+
+  it("should derive state reasons from what enabled each feature", () => {
+    const registry = createRegistryFromManifest(createTestManifest(), {
+      features: ["experimental"],
+    });
+    const reasonOf = (name: string): string | undefined =>
+      getFeatureState(registry, featureId(name))?.reason;
+
+    assertEquals(reasonOf("default"), "default-enabled");
+    assertEquals(reasonOf("experimental"), "explicit-enabled");
+    assertEquals(reasonOf("args"), "default-disabled");
+    assertEquals(getFeatureState(registry, featureId("fs")), {
+      enabled: true,
+      reason: "implied-by",
+      impliedBy: featureId("std"),
+      source: { type: "programmatic" },
+    });
+    assertEquals(getFeatureState(registry, featureId("async-runtime"))?.impliedBy, "experimental");
+    assertEquals(isEnabled(registry, featureId("fs")), true);
+    assertEquals(isEnabled(registry, featureId("full")), false);
+  });
+
+  it("should prefer a feature's own selection over the feature that implies it", () => {
+    const registry = createRegistryFromManifest(createTestManifest(), { features: ["fs"] });
+
+    assertEquals(getFeatureState(registry, featureId("fs"))?.reason, "explicit-enabled");
+  });
+
+  it("should mark defaults left off as explicitly disabled", () => {
+    const registry = createRegistryFromManifest(createTestManifest(), {
+      noDefaultFeatures: true,
+      features: ["args"],
+    });
+
+    assertEquals(getFeatureState(registry, featureId("default"))?.reason, "explicit-disabled");
+    assertEquals(getFeatureState(registry, featureId("std"))?.reason, "default-disabled");
+    assertEquals(getFeatureState(registry, featureId("args"))?.reason, "explicit-enabled");
+    assertEquals(registry.config.config, { enabled: ["args"], disabled: ["default"] });
+  });
+
+  it("should keep implications when states are changed", () => {
+    const registry = createRegistryFromManifest(createTestManifest(), {
+      noDefaultFeatures: true,
+    });
+    const full = setFeatureState(registry, featureId("full"), true);
+
+    assertEquals(getFeatureState(full, featureId("fs"))?.impliedBy, "std");
+    assertEquals(isEnabled(full, featureId("async-runtime")), true);
+    assertEquals(
+      isEnabled(setFeatureState(full, featureId("full"), false), featureId("fs")),
+      false,
+    );
+  });
+
+  it("should use enable-all for allFeatures", () => {
+    const registry = createRegistryFromManifest(createTestManifest(), { allFeatures: true });
+
+    for (const state of registry.states.values()) {
+      assertEquals(state, {
+        enabled: true,
+        reason: "enable-all",
+        source: { type: "programmatic" },
+      });
+    }
+  });
+
+  it("should record the manifest's config file as the source", () => {
+    const manifest = parseManifestText(
+      JSON.stringify({ features: { default: ["fs"], fs: [] } }),
+      "deno.json",
+      "/app/deno.json",
+    );
+    assertExists(manifest);
+    const registry = createRegistryFromManifest(manifest);
+
+    assertEquals(registry.config.source, { type: "deno.json", path: "/app/deno.json" });
+    assertEquals(registry.config.config, { enabled: [], disabled: [] });
+    assertEquals(getFeatureState(registry, featureId("fs"))?.source, registry.config.source);
+  });
+});
+
 describe("toRawConfig", () => {
   it("should convert manifest back to raw config", () => {
     const manifest = createTestManifest();
@@ -0,0 +1,265 @@
+/**
+ * Tests for feature combination matrices
+ *
+ * @module
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+
+import { type FeatureManifest, parseManifest } from "../src/manifest.ts";
+import {
+  combinationEnv,
+  featureCombination,
+  featureMatrix,
+  formatCombination,
+  runCombinations,
+} from "../src/matrix.ts";
+import { FeatureConflictError, FeatureFlagError } from "../src/types.ts";
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+function createTestManifest(): FeatureManifest {
+  return parseManifest({
+    features: {
+      default: ["std"],
+      std: ["fs"],
+      fs: [],
+      net: [],
+      tls: ["net"],
+    },
+  });
+}
+
+const selections = (manifest: FeatureManifest, options = {}): string[] =>
+  featureMatrix(manifest, options).map(formatCombination);
+
+// =============================================================================
+// featureMatrix Tests
+// =============================================================================
+
+describe("featureMatrix", () => {
+  it("should enumerate the powerset without duplicate resolutions", () => {
+    const combinations = featureMatrix(createTestManifest());
+    const keys = combinations.map((c) => c.enabled.join(","));
+
+    assertEquals(new Set(keys).size, keys.length);
+    assertEquals(combinations[0], { features: [], noDefaultFeatures: true, enabled: [] });
+    assertEquals(combinations[1].noDefaultFeatures, false);
+  });
+
+  it("should keep the smallest selection for each resolution", () => {
+    const result = selections(createTestManifest());
+
+    // "tls" enables "net", so "net,tls" is dropped in favour of "tls"
+    assertEquals(result.includes("--no-default-features --features tls"), true);
+    assertEquals(result.includes("--no-default-features --features net,tls"), false);
+  });
+
+  it("should enumerate each feature alone", () => {
+    const result = selections(createTestManifest(), { mode: "each-feature" });
+
+    assertEquals(result, [
+      "--no-default-features",
+      "",
+      "--no-default-features --features fs",
+      "--no-default-features --features net",
+      "--no-default-features --features std",
+      "--no-default-features --features tls",
+    ]);
+  });
+
+  it("should limit combinations by depth", () => {
+    const combinations = featureMatrix(createTestManifest(), { depth: 1 });
+    assertEquals(combinations.every((c) => c.features.length <= 1), true);
+  });
+
+  it("should resolve on top of defaults with includeDefault", () => {
+    const combinations = featureMatrix(createTestManifest(), {
+      mode: "each-feature",
+      includeDefault: true,
+    });
+
+    assertEquals(combinations.every((c) => !c.noDefaultFeatures), true);
+    assertEquals(combinations.every((c) => c.enabled.includes("default")), true);
+    assertEquals(combinations.map(formatCombination), ["", "--features net", "--features tls"]);
+  });
+
+  it("should skip excluded features", () => {
+    const result = selections(createTestManifest(), { mode: "each-feature", exclude: ["tls"] });
+    assertEquals(result.some((s) => s.includes("tls")), false);
+  });
+
+  it("should select grouped features together", () => {
+    const result = selections(createTestManifest(), {
+      mode: "each-feature",
+      groups: [["fs", "net"]],
+    });
+
+    assertEquals(result.includes("--no-default-features --features fs,net"), true);
+    assertEquals(result.includes("--no-default-features --features fs"), false);
+  });
+
+  it("should reject unknown features in options", () => {
+    assertThrows(
+      () => featureMatrix(createTestManifest(), { exclude: ["nope"] }),
+      FeatureFlagError,
+      "nope",
+    );
+    assertThrows(
+      () => featureMatrix(createTestManifest(), { groups: [["fs"], ["fs", "net"]] }),
+      FeatureFlagError,
+      "more than one",
+    );
+  });
+
+  it("should refuse matrices over the limit", () => {
+    assertThrows(
+      () => featureMatrix(createTestManifest(), { limit: 8 }),
+      FeatureFlagError,
+      "32 combinations",
+    );
+  });
+
+  it("should skip implicit features", () => {
+    const manifest = parseManifest(
+      { features: { default: [] }, ftFlags: { implicitFeatures: true } },
+      undefined,
+      { optionalDependencies: { ky: "^1.0.0" } },
+    );
+
+    const combinations = featureMatrix(manifest);
+    assertEquals(combinations.some((c) => c.features.includes("ky")), false);
+  });
+});
+
+describe("featureMatrix with exclusive groups", () => {
+  it("should leave out combinations that break a group", () => {
+    const manifest = parseManifest({
+      features: { a: [], b: [], c: [] },
+      ftFlags: { exclusiveGroups: { ab: { features: ["a", "b"] } } },
+    });
+
+    assertEquals(selections(manifest), [
+      "--no-default-features",
+      "--no-default-features --features a",
+      "--no-default-features --features b",
+      "--no-default-features --features c",
+      "--no-default-features --features a,c",
+      "--no-default-features --features b,c",
+    ]);
+  });
+
+  it("should reject an explicit combination that breaks a group", () => {
+    const manifest = parseManifest({
+      features: { default: [], a: [], b: [] },
+      ftFlags: { exclusiveGroups: { ab: { features: ["a", "b"] } } },
+    });
+
+    assertThrows(() => featureCombination(manifest, ["a", "b"]), FeatureConflictError);
+  });
+});
+
+// =============================================================================
+// featureCombination Tests
+// =============================================================================
+
+describe("featureCombination", () => {
+  it("should disable defaults unless default is selected", () => {
+    const manifest = createTestManifest();
+
+    const bare = featureCombination(manifest, ["net"]);
+    assertEquals(bare.noDefaultFeatures, true);
+    assertEquals(bare.enabled, ["net"]);
+
+    const withDefault = featureCombination(manifest, ["default", "net"]);
+    assertEquals(withDefault.features, ["net"]);
+    assertEquals(withDefault.noDefaultFeatures, false);
+    assertEquals(withDefault.enabled, ["default", "fs", "net", "std"]);
+  });
+
+  it("should keep defaults on with includeDefault", () => {
+    const combination = featureCombination(createTestManifest(), [], true);
+    assertEquals(combination.noDefaultFeatures, false);
+    assertEquals(combination.enabled, ["default", "fs", "std"]);
+  });
+
+  it("should reject unknown features", () => {
+    assertThrows(
+      () => featureCombination(createTestManifest(), ["nope"]),
+      FeatureFlagError,
+      "nope",
+    );
+  });
+
+  it("should express the selection as FT_ environment variables", () => {
+    const manifest = createTestManifest();
+
+    assertEquals(combinationEnv(featureCombination(manifest, ["net", "fs"])), {
+      FT_FEATURES: "net,fs",
+      FT_NO_DEFAULT_FEATURES: "true",
+      FT_ALL_FEATURES: "false",
+      FT_PROFILE: "",
+      FT_TARGET: "",
+    });
+    assertEquals(combinationEnv(featureCombination(manifest, ["default"])), {
+      FT_FEATURES: "",
+      FT_NO_DEFAULT_FEATURES: "false",
+      FT_ALL_FEATURES: "false",
+      FT_PROFILE: "",
+      FT_TARGET: "",
+    });
+  });
+});
+
+// =============================================================================
+// runCombinations Tests
+// =============================================================================
+
+describe("runCombinations", () => {
+  // Fails when "net" is selected, so runs can be told apart by the environment
+  const command = [
+    Deno.execPath(),
+    "eval",
+    'Deno.exit(Deno.env.get("FT_FEATURES")?.includes("net") ? 3 : 0)',
+  ];
+
+  const combinations = (): ReturnType<typeof featureCombination>[] => {
+    const manifest = createTestManifest();
+    return [
+      featureCombination(manifest, ["fs"]),
+      featureCombination(manifest, ["net"]),
+      featureCombination(manifest, ["default"]),
+    ];
+  };
+
+  it("should stop at the first failure", async () => {
+    const runs = await runCombinations(command, combinations());
+
+    assertEquals(runs.map((r) => r.status), ["passed", "failed", "skipped"]);
+    assertEquals(runs.map((r) => r.code), [0, 3, null]);
+    assertEquals(runs[2].durationMs, null);
+  });
+
+  it("should run every combination with keepGoing", async () => {
+    const started: number[] = [];
+    const runs = await runCombinations(command, combinations(), {
+      keepGoing: true,
+      onStart: (_combination, index) => started.push(index),
+    });
+
+    assertEquals(runs.map((r) => r.status), ["passed", "failed", "passed"]);
+    assertEquals(started, [0, 1, 2]);
+  });
+
+  it("should throw when the command cannot be started", async () => {
+    await assertRejects(
+      () => runCombinations(["ft-flags-no-such-command"], combinations()),
+      FeatureFlagError,
+      "ft-flags-no-such-command",
+    );
+    await assertRejects(() => runCombinations([], combinations()), FeatureFlagError);
+  });
+});
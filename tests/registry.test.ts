@@ -20,11 +20,20 @@ import {
   listDisabledFeatures,
   listEnabledFeatures,
   listFeatures,
+  mergeRegistries,
   requireFeature,
   setFeatureState,
 } from "../src/registry.ts";
-import { buildSchema } from "../src/schema.ts";
-import { featureId } from "../src/types.ts";
+import { allEnabled, filterEnabled, whenEnabled } from "../src/evaluate.ts";
+import { buildSchema, mergeSchemas } from "../src/schema.ts";
+import {
+  type FeatureConfig,
+  FeatureDependentsError,
+  featureId,
+  type FeatureNameOf,
+  type FeatureRegistry,
+  FeatureSchemaError,
+} from "../src/types.ts";
 
 describe("FeatureRegistry", () => {
   describe("createRegistry", () => {
@@ -189,6 +198,113 @@ describe("FeatureRegistry", () => {
       const updated = disableFeature(registry, featureId("my-feature"));
       assertEquals(isEnabled(updated, featureId("my-feature")), false);
     });
+
+    const createStdRegistry = () =>
+      createRegistry({
+        schema: buildSchema([
+          { id: "full", implies: ["std", "experimental"] },
+          { id: "std", implies: ["fs", "env"] },
+          { id: "fs" },
+          { id: "env" },
+          { id: "experimental" },
+          { id: "net" },
+        ]),
+        config: { enabled: ["std", "net"] },
+      });
+
+    it("should enable implied features and report every change", () => {
+      const updated = enableFeature(createStdRegistry(), "full");
+
+      assertEquals(isEnabled(updated, "experimental"), true);
+      assertEquals(
+        updated.changes.map(({ id, before, after }) => [id, before?.reason, after.reason]),
+        [
+          ["full", "default-disabled", "explicit-enabled"],
+          ["experimental", "default-disabled", "implied-by"],
+        ],
+      );
+    });
+
+    it("should report nothing when the state does not change", () => {
+      assertEquals(enableFeature(createStdRegistry(), "net").changes, []);
+      assertEquals(enableFeature(createStdRegistry(), "fs").changes.length, 1);
+    });
+
+    it("should keep dependents enabled by default", () => {
+      const updated = disableFeature(enableFeature(createStdRegistry(), "full"), "fs");
+
+      assertEquals(getFeatureState(updated, "fs")?.reason, "explicit-disabled");
+      assertEquals(isEnabled(updated, "std"), true);
+      assertEquals(updated.changes.map(({ id }) => id), ["fs"]);
+    });
+
+    it("should fail to disable a feature that enabled features imply", () => {
+      const registry = enableFeature(createStdRegistry(), "full");
+
+      const error = assertThrows(
+        () => disableFeature(registry, "fs", { dependents: "fail" }),
+        FeatureDependentsError,
+        'Cannot disable feature "fs": it is implied by enabled features "std", "full"',
+      );
+      assertEquals(error.dependents, ["std", "full"]);
+      assertEquals(isEnabled(registry, "fs"), true);
+    });
+
+    it("should not count features that imply it through a disabled feature", () => {
+      const registry = createRegistry({
+        schema: buildSchema([
+          { id: "a", implies: ["b"] },
+          { id: "b", implies: ["c"] },
+          { id: "c" },
+        ]),
+        config: { enabled: ["a", "c"], disabled: ["b"] },
+      });
+
+      const updated = disableFeature(registry, "c", { dependents: "fail" });
+      assertEquals(listEnabledFeatures(updated), ["a"]);
+    });
+
+    it("should cascade to the features that imply it", () => {
+      const registry = enableFeature(createStdRegistry(), "full");
+      const updated = disableFeature(registry, "fs", { dependents: "cascade" });
+
+      assertEquals(listEnabledFeatures(updated), ["net"]);
+      assertEquals(
+        updated.changes.map(({ id, after }) => [id, after.reason]),
+        [
+          ["full", "explicit-disabled"],
+          ["std", "explicit-disabled"],
+          ["fs", "explicit-disabled"],
+          ["env", "default-disabled"],
+          ["experimental", "default-disabled"],
+        ],
+      );
+    });
+
+    it("should enable implied features that were disabled before", () => {
+      const registry = createRegistry({
+        schema: buildSchema([
+          { id: "full", implies: ["fs"] },
+          { id: "std", implies: ["fs"], defaultEnabled: true },
+          { id: "fs" },
+        ]),
+      });
+      const disabled = disableFeature(registry, "fs", { dependents: "cascade" });
+      const updated = enableFeature(disabled, "full");
+
+      assertEquals(listEnabledFeatures(updated), ["full", "fs"]);
+      assertEquals(
+        updated.changes.map(({ id, after }) => [id, after.reason]),
+        [["full", "explicit-enabled"], ["fs", "explicit-enabled"]],
+      );
+    });
+
+    it("should revert features that were only implied by the disabled feature", () => {
+      const updated = disableFeature(createStdRegistry(), "std");
+
+      assertEquals(listEnabledFeatures(updated), ["net"]);
+      assertEquals(updated.changes.map(({ id }) => id), ["std", "fs", "env"]);
+    });
   });
 
   describe("feature groups", () => {
@@ -244,6 +360,74 @@ describe("FeatureRegistry", () => {
     });
   });
 
+  describe("implications", () => {
+    const createImplyingRegistry = (config?: FeatureConfig) =>
+      createRegistry({
+        schema: buildSchema([
+          { id: "full", implies: ["std", "experimental"] },
+          { id: "std", implies: ["fs", "env"] },
+          { id: "fs" },
+          { id: "env" },
+          { id: "experimental" },
+        ]),
+        config,
+      });
+
+    it("should enable implied features with the implying feature", () => {
+      const registry = createImplyingRegistry({ enabled: ["full"] });
+
+      assertEquals(getFeatureState(registry, "full")?.reason, "explicit-enabled");
+      assertEquals(getFeatureState(registry, "std"), {
+        enabled: true,
+        reason: "implied-by",
+        impliedBy: featureId("full"),
+        source: { type: "programmatic" },
+      });
+      assertEquals(getFeatureState(registry, "fs")?.impliedBy, "std");
+      assertEquals(getFeatureState(registry, "experimental")?.impliedBy, "full");
+    });
+
+    it("should not override explicit disables or states that are already enabled", () => {
+      const registry = createImplyingRegistry({ enabled: ["full", "fs"], disabled: ["env"] });
+
+      assertEquals(getFeatureState(registry, "fs")?.reason, "explicit-enabled");
+      assertEquals(getFeatureState(registry, "env")?.reason, "explicit-disabled");
+    });
+
+    it("should apply implications over disableAll", () => {
+      const registry = createImplyingRegistry({ disableAll: true, enabled: ["std"] });
+
+      assertEquals(listEnabledFeatures(registry), ["std", "fs", "env"]);
+      assertEquals(getFeatureState(registry, "full")?.reason, "disable-all");
+    });
+
+    it("should apply implications when setting states", () => {
+      const registry = setFeatureState(createImplyingRegistry(), "std", true);
+      assertEquals(getFeatureState(registry, "env")?.reason, "implied-by");
+
+      const reverted = setFeatureState(registry, "std", false);
+      assertEquals(getFeatureState(reverted, "env")?.reason, "default-disabled");
+      assertEquals(listEnabledFeatures(reverted), []);
+    });
+
+    it("should keep features implied by another enabled feature", () => {
+      const registry = createImplyingRegistry({ enabled: ["full", "std"] });
+
+      const updated = setFeatureState(registry, "full", false);
+      assertEquals(listEnabledFeatures(updated), ["std", "fs", "env"]);
+      assertEquals(getFeatureState(updated, "experimental")?.reason, "default-disabled");
+    });
+
+    it("should reject implied features that are not in the schema", () => {
+      assertThrows(
+        // @ts-expect-error "fs" is not in the schema
+        () => buildSchema([{ id: "full", implies: ["fs"] }]),
+        FeatureSchemaError,
+        'Feature "full" implies unknown feature "fs"',
+      );
+    });
+  });
+
   describe("requireFeature", () => {
     it("should not throw for enabled feature", () => {
       const schema = buildSchema([{ id: "my-feature" }]);
@@ -355,4 +539,58 @@ describe("FeatureRegistry", () => {
       assertEquals(isDisabled(registry, featureId("my-feature")), false);
     });
   });
+
+  describe("typed registries", () => {
+    const createTypedRegistry = () =>
+      createRegistry({
+        schema: buildSchema([{ id: "fs" }, { id: "env", defaultEnabled: true }]),
+        config: { enabled: ["fs"] },
+      });
+
+    it("should take the feature names from the schema", () => {
+      const registry = createTypedRegistry();
+      const names: FeatureNameOf<typeof registry>[] = listFeatures(registry);
+
+      assertEquals(names, ["fs", "env"]);
+      assertEquals(isEnabled(registry, "fs"), true);
+      assertEquals(isEnabled(registry, "env"), true);
+    });
+
+    it("should reject unknown names at compile time", () => {
+      const registry = createTypedRegistry();
+
+      // @ts-expect-error "net" is not in the schema
+      assertEquals(isEnabled(registry, "net"), false);
+      // @ts-expect-error "net" is not in the schema
+      assertEquals(allEnabled(["fs", "net"], registry), false);
+      // @ts-expect-error "net" is not in the schema
+      assertThrows(() => requireFeature(registry, "net"));
+    });
+
+    it("should keep accepting feature IDs", () => {
+      const registry = createTypedRegistry();
+      assertEquals(isEnabled(registry, featureId("fs")), true);
+    });
+
+    it("should keep the names through updates and merges", () => {
+      const registry = disableFeature(createTypedRegistry(), "env");
+      assertEquals(listEnabledFeatures(registry), ["fs"]);
+
+      const merged = mergeRegistries(registry, createSimpleRegistry(["net"]));
+      assertEquals(filterEnabled(["fs", "env", "net"], merged), ["fs", "net"]);
+      assertEquals(whenEnabled("net", merged, () => "on"), "on");
+
+      const schema = mergeSchemas(registry.schema, buildSchema([{ id: "net" }]));
+      const names: FeatureNameOf<typeof schema>[] = [...schema.allFeatures];
+      assertEquals(names, ["fs", "env", "net"]);
+    });
+
+    it("should be usable as an untyped registry", () => {
+      const untyped: FeatureRegistry = createTypedRegistry();
+
+      assertEquals(isEnabled(untyped, featureId("fs")), true);
+      // @ts-expect-error untyped registries need a FeatureId
+      assertEquals(isEnabled(untyped, "fs"), true);
+    });
+  });
 });
@@ -0,0 +1,153 @@
+/**
+ * Tests for the TOML parser
+ *
+ * @module
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+
+import { parseToml } from "../src/toml.ts";
+import { ConfigParseError } from "../src/types.ts";
+
+// =============================================================================
+// Values
+// =============================================================================
+
+describe("parseToml", () => {
+  it("should parse a feature manifest", () => {
+    const doc = parseToml(
+      [
+        "# Package features",
+        'name = "@my/package"',
+        "",
+        "[features]",
+        'default = ["std"] # enabled by default',
+        "std = [",
+        '  "fs",',
+        '  "env", # trailing comma',
+        "]",
+        "fs = []",
+        "env = []",
+        "",
+        "[metadata.features.fs]",
+        'description = "File system access"',
+        "deprecated = false",
+      ].join("\n"),
+    );
+
+    assertEquals(doc, {
+      name: "@my/package",
+      features: { default: ["std"], std: ["fs", "env"], fs: [], env: [] },
+      metadata: { features: { fs: { description: "File system access", deprecated: false } } },
+    });
+  });
+
+  it("should parse strings", () => {
+    const doc = parseToml(
+      [
+        String.raw`basic = "tab\there \u00e9 \"quoted\""`,
+        String.raw`literal = 'C:\path'`,
+        'multi = """',
+        "one \\",
+        '  two"""',
+        "raw = '''",
+        "keep\\n'''",
+      ].join("\n"),
+    );
+
+    assertEquals(doc, {
+      basic: 'tab\there \u00e9 "quoted"',
+      literal: "C:\\path",
+      multi: "one two",
+      raw: "keep\\n",
+    });
+  });
+
+  it("should parse numbers and booleans", () => {
+    const doc = parseToml(
+      "int = 1_000\nneg = -17\nhex = 0xff\nbin = 0b101\nfloat = 6.5e-1\ninf = -inf\nyes = true",
+    );
+
+    assertEquals(doc, {
+      int: 1000,
+      neg: -17,
+      hex: 255,
+      bin: 5,
+      float: 0.65,
+      inf: -Infinity,
+      yes: true,
+    });
+  });
+
+  it("should parse dotted and quoted keys and inline tables", () => {
+    const doc = parseToml(
+      '"@scope/pkg".features = ["a"]\nsite."google.com" = true\npoint = { x = 1, y.z = 2 }',
+    );
+
+    assertEquals(doc, {
+      "@scope/pkg": { features: ["a"] },
+      site: { "google.com": true },
+      point: { x: 1, y: { z: 2 } },
+    });
+  });
+
+  it("should parse arrays of tables", () => {
+    const doc = parseToml('[[group]]\nname = "a"\n[[group]]\nname = "b"\n[group.extra]\nx = 1');
+
+    assertEquals(doc, { group: [{ name: "a" }, { name: "b", extra: { x: 1 } }] });
+  });
+
+  it("should keep __proto__ as a plain key", () => {
+    const doc = parseToml("[__proto__]\npolluted = true");
+
+    assertEquals(Object.keys(doc), ["__proto__"]);
+    assertEquals(({} as Record<string, unknown>).polluted, undefined);
+  });
+});
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+describe("parseToml errors", () => {
+  const errorOf = (text: string): ConfigParseError =>
+    assertThrows(() => parseToml(text, "ft-flags.toml"), ConfigParseError);
+
+  it("should report the position of syntax errors", () => {
+    const error = errorOf('[features]\ndefault = ["std" "fs"]');
+
+    assertEquals([error.line, error.column], [2, 18]);
+    assertEquals(
+      error.message,
+      'Expected "," or "]" but found character "\\"" at ft-flags.toml:2:18',
+    );
+  });
+
+  it("should reject duplicate keys and tables", () => {
+    assertEquals(errorOf("a = 1\na = 2").message, 'Duplicate key "a" at ft-flags.toml:2:1');
+    assertEquals(
+      errorOf("[features]\n[features]").message,
+      'Table "features" is already defined at ft-flags.toml:2:1',
+    );
+    assertEquals(
+      errorOf("point = { x = 1 }\n[point]").message,
+      'Table "point" is already defined at ft-flags.toml:2:1',
+    );
+  });
+
+  it("should reject unterminated strings and values on the same line", () => {
+    assertEquals(errorOf("a = 'open").message, "Unterminated string at ft-flags.toml:1:5");
+    assertEquals(
+      errorOf("a = 1 b = 2").message,
+      'Expected the end of the line but found character "b" at ft-flags.toml:1:7',
+    );
+  });
+
+  it("should not support dates", () => {
+    assertEquals(
+      errorOf("released = 2024-01-01").message,
+      "Dates and times are not supported at ft-flags.toml:1:12",
+    );
+  });
+});
@@ -4,19 +4,23 @@
  * @module
  */
 
-import { assertEquals } from "@std/assert";
-import { describe, it } from "@std/testing/bdd";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { afterAll, beforeAll, describe, it } from "@std/testing/bdd";
 
 import {
   detectCycles,
+  DIAGNOSTIC_CODES,
   extractExternalReferences,
   isValidFeatureReference,
   isValidPackageName,
+  loadManifestFromDenoJson,
+  loadManifestFromDirectory,
   type PackageDependencies,
   parseManifest,
   validateManifest,
 } from "../src/manifest.ts";
-import { isValidFeatureId } from "../src/types.ts";
+import { indexJsonLocations, parseJson } from "../src/source.ts";
+import { ConfigParseError, isValidFeatureId } from "../src/types.ts";
 
 // =============================================================================
 // Feature Name Validation Tests
@@ -732,3 +736,717 @@ describe("Validation Edge Cases", () => {
     assertEquals(result.errors.length, 0);
   });
 });
+
+// =============================================================================
+// Diagnostics Tests
+// =============================================================================
+
+describe("Diagnostics", () => {
+  it("should give each diagnostic a stable code and rule", () => {
+    const manifest = parseManifest({
+      features: {
+        default: ["std"],
+        std: ["missing"],
+      },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.diagnostics.length, 1);
+
+    const [diagnostic] = result.diagnostics;
+    assertEquals(diagnostic.code, "FT001");
+    assertEquals(diagnostic.rule, "unknown-feature-ref");
+    assertEquals(diagnostic.severity, "error");
+    assertEquals(diagnostic.feature, "std");
+    assertEquals(diagnostic.reference, "missing");
+    assertEquals(diagnostic.location, undefined);
+  });
+
+  it("should use unique codes for every rule", () => {
+    const codes = Object.values(DIAGNOSTIC_CODES);
+    assertEquals(new Set(codes).size, codes.length);
+  });
+
+  it("should keep errors and warnings in sync with diagnostics", () => {
+    const manifest = parseManifest({
+      features: {
+        std: ["dep:"],
+      },
+      metadata: {
+        ghost: { description: "Not a feature" },
+      },
+    });
+
+    const result = validateManifest(manifest);
+    const rules = result.diagnostics.map((d) => d.rule);
+    assertEquals(rules, ["invalid-reference", "unknown-metadata-feature", "missing-default"]);
+    assertEquals(result.errors, [result.diagnostics[0].message]);
+    assertEquals(result.warnings, result.diagnostics.slice(1).map((d) => d.message));
+  });
+
+  it("should follow strictDependencies for the severity of unknown dependencies", () => {
+    const manifest = parseManifest({ features: { default: ["dep:tokio"] } });
+    const deps: PackageDependencies = { dependencies: {} };
+
+    const lenient = validateManifest(manifest, { dependencies: deps });
+    assertEquals(lenient.diagnostics[0].code, "FT006");
+    assertEquals(lenient.diagnostics[0].severity, "warning");
+
+    const strict = validateManifest(manifest, { dependencies: deps, strictDependencies: true });
+    assertEquals(strict.diagnostics[0].severity, "error");
+  });
+
+  describe("source locations", () => {
+    let tempDir: string;
+    let configPath: string;
+
+    beforeAll(async () => {
+      tempDir = await Deno.makeTempDir({ prefix: "ft-flags-diagnostics-" });
+      configPath = `${tempDir}/deno.json`;
+      await Deno.writeTextFile(
+        configPath,
+        [
+          "{",
+          '  "name": "@test/diagnostics",',
+          '  "features": {',
+          '    "default": ["std"],',
+          '    "std": ["fs", "missing"],',
+          '    "fs": []',
+          "  },",
+          '  "metadata": {',
+          '    "features": {',
+          '      "fs": { "deprecated": true }',
+          "    }",
+          "  }",
+          "}",
+        ].join("\n"),
+      );
+
+      await Deno.mkdir(`${tempDir}/jsonc`);
+      await Deno.writeTextFile(
+        `${tempDir}/jsonc/deno.jsonc`,
+        [
+          "// Package config",
+          "{",
+          '  "features": {',
+          "    /* enabled unless --no-default-features */",
+          '    "default": ["std"], // the usual set',
+          '    "std": ["missing",],',
+          "  },",
+          "}",
+        ].join("\n"),
+      );
+      await Deno.mkdir(`${tempDir}/broken`);
+      await Deno.writeTextFile(
+        `${tempDir}/broken/deno.json`,
+        '{\n  "features": {\n    "default": []\n    "std": []\n  }\n}',
+      );
+    });
+
+    afterAll(async () => {
+      if (tempDir) {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should point at the offending reference", async () => {
+      const manifest = await loadManifestFromDenoJson(configPath);
+      const result = validateManifest(manifest!);
+
+      const unknown = result.diagnostics.find((d) => d.code === "FT001");
+      assertEquals(unknown?.location, { path: configPath, line: 5, column: 19 });
+    });
+
+    it("should point at metadata entries", async () => {
+      const manifest = await loadManifestFromDenoJson(configPath);
+      const result = validateManifest(manifest!);
+
+      const deprecated = result.diagnostics.find((d) => d.rule === "deprecated-without-message");
+      assertEquals(deprecated?.location, { path: configPath, line: 10, column: 15 });
+    });
+
+    it("should load deno.jsonc with comments and trailing commas", async () => {
+      const manifest = await loadManifestFromDirectory(`${tempDir}/jsonc`);
+      assertEquals(manifest?.source?.type, "deno.jsonc");
+      assertEquals(manifest?.features.get("std"), ["missing"]);
+
+      const result = validateManifest(manifest!);
+      assertEquals(result.diagnostics[0].location, {
+        path: `${tempDir}/jsonc/deno.jsonc`,
+        line: 6,
+        column: 13,
+      });
+    });
+
+    it("should report the line and column of syntax errors", async () => {
+      const error = await assertRejects(
+        () => loadManifestFromDirectory(`${tempDir}/broken`),
+        ConfigParseError,
+      );
+      assertEquals([error.line, error.column], [4, 5]);
+      assertEquals(
+        error.message,
+        `Expected "," or "}" but found character "\\"" at ${tempDir}/broken/deno.json:4:5`,
+      );
+    });
+  });
+
+  describe("parseJson", () => {
+    it("should parse JSON like JSON.parse", () => {
+      const text = '{"a": [1, -2.5e3, true, false, null], "b": {"c": "d\\n"}, "__proto__": 1}';
+      assertEquals(parseJson(text), JSON.parse(text));
+    });
+
+    it("should accept comments and trailing commas only in JSONC", () => {
+      const text = '{\n  // comment\n  "a": [1, /* two */ 2,],\n}';
+      assertEquals(parseJson(text, { comments: true }), { a: [1, 2] });
+      assertThrows(() => parseJson(text), ConfigParseError, "line 2, column 3");
+      assertThrows(
+        () => parseJson("[1, 2,]"),
+        ConfigParseError,
+        "Trailing comma at line 1, column 6",
+      );
+    });
+
+    it("should report where parsing stopped", () => {
+      assertThrows(() => parseJson('{"a": 1'), ConfigParseError, "found end of input");
+      assertThrows(() => parseJson('{"a": tru}'), ConfigParseError, "column 7");
+      assertThrows(() => parseJson('"abc'), ConfigParseError, "Unterminated string");
+      assertThrows(() => parseJson("1 2"), ConfigParseError, "after the value");
+      assertThrows(
+        () => parseJson("/* open", { comments: true }),
+        ConfigParseError,
+        "Unterminated comment",
+      );
+    });
+  });
+
+  describe("indexJsonLocations", () => {
+    it("should locate object members at their key and array elements at their value", () => {
+      const locations = indexJsonLocations('{\n  "a": [1, "x"],\n  "b": { "c": null }\n}');
+
+      assertEquals(locations.get("/a"), { path: undefined, line: 2, column: 3 });
+      assertEquals(locations.get("/a/1"), { path: undefined, line: 2, column: 12 });
+      assertEquals(locations.get("/b/c"), { path: undefined, line: 3, column: 10 });
+    });
+
+    it("should escape keys as JSON Pointer tokens", () => {
+      const locations = indexJsonLocations('{"a/b": {"~": 1}}');
+      assertEquals(locations.has("/a~1b/~0"), true);
+    });
+
+    it("should keep partial results for malformed input", () => {
+      const locations = indexJsonLocations('{"a": 1, "b": [');
+      assertEquals(locations.has("/a"), true);
+    });
+
+    it("should skip comments", () => {
+      const locations = indexJsonLocations('{ /* "x": 0, */ "a": // "b": 1\n [1] }');
+      assertEquals([...locations.keys()], ["/a", "/a/0"]);
+    });
+  });
+});
+
+// =============================================================================
+// Lint Rule Configuration Tests
+// =============================================================================
+
+describe("Lint rule levels", () => {
+  it("should turn off rules configured in metadata.ftFlags.lint", () => {
+    const manifest = parseManifest({
+      features: { std: [] },
+      ftFlags: { lint: { "missing-default": "off" } },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.diagnostics.length, 0);
+  });
+
+  it("should promote warnings to errors", () => {
+    const manifest = parseManifest({
+      features: { default: ["legacy"], legacy: [] },
+      metadata: { legacy: { deprecated: true } },
+      ftFlags: { lint: { "deprecated-without-message": "error" } },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.valid, false);
+    assertEquals(result.diagnostics[0].rule, "deprecated-without-message");
+    assertEquals(result.diagnostics[0].severity, "error");
+  });
+
+  it("should demote errors to warnings", () => {
+    const manifest = parseManifest({
+      features: { default: ["missing"] },
+      ftFlags: { lint: { "unknown-feature-ref": "warn" } },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.valid, true);
+    assertEquals(result.warnings.length, 1);
+  });
+
+  it("should let ValidateOptions.rules override the manifest config", () => {
+    const manifest = parseManifest({
+      features: { std: [] },
+      ftFlags: { lint: { "missing-default": "off" } },
+    });
+
+    const result = validateManifest(manifest, { rules: { "missing-default": "error" } });
+    assertEquals(result.valid, false);
+    assertEquals(result.diagnostics[0].code, "FT009");
+  });
+
+  it("should let rules override strictDependencies", () => {
+    const manifest = parseManifest({ features: { default: ["dep:tokio"] } });
+
+    const result = validateManifest(manifest, {
+      dependencies: { dependencies: {} },
+      strictDependencies: true,
+      rules: { "unknown-dependency": "off" },
+    });
+    assertEquals(result.diagnostics.length, 0);
+  });
+
+  it("should report unknown rules and invalid levels", () => {
+    const manifest = parseManifest({
+      features: { default: [] },
+      // As read from a config file, without type checking
+      ftFlags: { lint: JSON.parse('{ "no-such-rule": "off", "empty-default": "loud" }') },
+    });
+
+    const result = validateManifest(manifest);
+    const messages = result.diagnostics
+      .filter((d) => d.rule === "invalid-lint-config")
+      .map((d) => d.message);
+    assertEquals(messages, [
+      'Unknown lint rule "no-such-rule"',
+      'Invalid level "loud" for lint rule "empty-default" (expected off, warn or error)',
+    ]);
+
+    // An invalid level falls back to the default
+    assertEquals(result.diagnostics.some((d) => d.rule === "empty-default"), true);
+  });
+});
+
+// =============================================================================
+// Reachability and Redundancy Tests
+// =============================================================================
+
+describe("Lint checks for feature lists", () => {
+  const rulesOf = (result: { diagnostics: readonly { rule: string }[] }): string[] =>
+    result.diagnostics.map((d) => d.rule);
+
+  describe("unreachable-feature", () => {
+    it("should report internal features nothing public enables", () => {
+      const manifest = parseManifest({
+        features: {
+          default: ["std"],
+          std: ["io"],
+          io: [],
+          orphan: [],
+        },
+        metadata: {
+          io: { internal: true },
+          orphan: { internal: true },
+        },
+      });
+
+      const result = validateManifest(manifest);
+      assertEquals(rulesOf(result), ["unreachable-feature"]);
+      assertEquals(result.diagnostics[0].code, "FT012");
+      assertEquals(result.diagnostics[0].feature, "orphan");
+    });
+
+    it("should not count internal features as roots", () => {
+      const manifest = parseManifest({
+        features: {
+          default: [],
+          a: ["b"],
+          b: [],
+        },
+        metadata: {
+          a: { internal: true },
+          b: { internal: true },
+        },
+        ftFlags: { lint: { "empty-default": "off" } },
+      });
+
+      const result = validateManifest(manifest);
+      assertEquals(result.diagnostics.map((d) => d.feature), ["a", "b"]);
+    });
+  });
+
+  describe("redundant-entry", () => {
+    it("should report entries already enabled by a sibling", () => {
+      const manifest = parseManifest({
+        features: {
+          default: ["full"],
+          full: ["std", "fs"],
+          std: ["fs"],
+          fs: [],
+        },
+      });
+
+      const result = validateManifest(manifest);
+      assertEquals(rulesOf(result), ["redundant-entry"]);
+      assertEquals(result.diagnostics[0].code, "FT013");
+      assertEquals(result.diagnostics[0].feature, "full");
+      assertEquals(result.diagnostics[0].reference, "fs");
+      assertEquals(
+        result.diagnostics[0].message,
+        'Feature "full" lists "fs", which is already enabled by "std"',
+      );
+    });
+
+    it("should follow transitive enables and external entries", () => {
+      const manifest = parseManifest({
+        features: {
+          default: ["full"],
+          full: ["net", "dep:tokio"],
+          net: ["runtime"],
+          runtime: ["dep:tokio"],
+        },
+      });
+
+      const result = validateManifest(manifest);
+      assertEquals(result.diagnostics[0].reference, "dep:tokio");
+      assertEquals(result.diagnostics[0].message.includes('"net"'), true);
+    });
+
+    it("should not report features in a cycle as redundant", () => {
+      const manifest = parseManifest({
+        features: {
+          default: ["a", "b"],
+          a: ["b"],
+          b: ["a"],
+        },
+      });
+
+      const result = validateManifest(manifest);
+      assertEquals(rulesOf(result).includes("redundant-entry"), false);
+    });
+  });
+
+  describe("duplicate-entry", () => {
+    it("should report repeated entries once per repetition", () => {
+      const manifest = parseManifest({
+        features: {
+          default: ["std", "std"],
+          std: [],
+        },
+      });
+
+      const result = validateManifest(manifest);
+      assertEquals(rulesOf(result), ["duplicate-entry"]);
+      assertEquals(result.diagnostics[0].code, "FT014");
+      assertEquals(result.diagnostics[0].reference, "std");
+    });
+  });
+});
+
+// =============================================================================
+// Exclusive Group Tests
+// =============================================================================
+
+describe("Exclusive groups", () => {
+  const rulesOf = (result: { diagnostics: readonly { rule: string }[] }): string[] =>
+    result.diagnostics.map((d) => d.rule);
+
+  it("should accept a well-formed group", () => {
+    const manifest = parseManifest({
+      features: { default: ["tls-native"], "tls-native": [], "tls-rustls": [] },
+      ftFlags: { exclusiveGroups: { tls: { features: ["tls-native", "tls-rustls"] } } },
+    });
+
+    assertEquals(validateManifest(manifest).diagnostics, []);
+  });
+
+  it("should report features that enable more than one member", () => {
+    const manifest = parseManifest({
+      features: {
+        default: ["full"],
+        full: ["server"],
+        server: ["tls-native", "tls-rustls"],
+        "tls-native": [],
+        "tls-rustls": [],
+      },
+      ftFlags: { exclusiveGroups: { tls: { features: ["tls-native", "tls-rustls"] } } },
+    });
+
+    const result = validateManifest(manifest);
+    // Only where the conflict starts, not "full" or "default"
+    assertEquals(rulesOf(result), ["exclusive-conflict"]);
+    assertEquals(result.diagnostics[0].code, "FT016");
+    assertEquals(result.diagnostics[0].feature, "server");
+    assertEquals(
+      result.diagnostics[0].message,
+      'Feature "server" enables mutually exclusive features "tls-native", "tls-rustls" (group "tls")',
+    );
+    assertEquals(result.valid, false);
+  });
+
+  it("should report malformed groups", () => {
+    const manifest = parseManifest(JSON.parse(`{
+      "features": { "default": [], "a": [], "b": [] },
+      "ftFlags": {
+        "lint": { "empty-default": "off" },
+        "exclusiveGroups": {
+          "small": { "features": ["a"] },
+          "typo": { "features": ["a", "c"], "mode": "one" }
+        }
+      }
+    }`));
+
+    const result = validateManifest(manifest);
+    assertEquals(rulesOf(result), [
+      "invalid-exclusive-group",
+      "invalid-exclusive-group",
+      "invalid-exclusive-group",
+    ]);
+    assertEquals(result.diagnostics.map((d) => d.code), ["FT015", "FT015", "FT015"]);
+    assertEquals(result.diagnostics[2].reference, "c");
+  });
+});
+
+// =============================================================================
+// Requirement Tests
+// =============================================================================
+
+describe("Requirements", () => {
+  it("should report requires entries that name unknown features or the feature itself", () => {
+    const manifest = parseManifest({
+      features: { default: ["a"], a: [], b: [] },
+      metadata: {
+        a: { requires: ["a"] },
+        b: { requires: ["c"] },
+      },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.diagnostics.map((d) => d.code), ["FT017", "FT017"]);
+    assertEquals(result.errors, [
+      'Feature "a" requires itself',
+      'Feature "b" requires unknown feature "c"',
+    ]);
+  });
+
+  it("should check requiredDeps against package dependencies", () => {
+    const manifest = parseManifest({
+      features: { default: ["pg"], pg: [], mysql: [] },
+      metadata: {
+        pg: { requiredDeps: ["pg"] },
+        mysql: { requiredDeps: ["mysql2"] },
+      },
+    });
+
+    const result = validateManifest(manifest, { dependencies: { peerDependencies: { pg: "^8" } } });
+    assertEquals(result.diagnostics.map((d) => d.rule), ["unknown-required-dep"]);
+    assertEquals(result.diagnostics[0].code, "FT018");
+    assertEquals(result.diagnostics[0].reference, "mysql2");
+
+    // Without dependency info there is nothing to check against
+    assertEquals(validateManifest(manifest).valid, true);
+  });
+});
+
+// =============================================================================
+// Target Condition Tests
+// =============================================================================
+
+describe("Target conditions", () => {
+  it("should accept target conditions and target defaults", () => {
+    const manifest = parseManifest({
+      features: { default: ["fs"], fs: [], ffi: [] },
+      metadata: { ffi: { when: 'any(target("deno"), target("bun"))' } },
+      ftFlags: { targetDefaults: { deno: ["ffi"] } },
+    });
+
+    assertEquals(validateManifest(manifest).diagnostics, []);
+  });
+
+  it("should report malformed conditions and conditions on features", () => {
+    const manifest = parseManifest({
+      features: { default: ["fs"], fs: [], ffi: [] },
+      metadata: {
+        fs: { when: 'target("node"' },
+        ffi: { when: 'all(target("deno"), feature("fs"))' },
+      },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.diagnostics.map((d) => d.code), ["FT019", "FT019"]);
+    assertEquals(result.errors[0].startsWith('Invalid condition for feature "fs"'), true);
+    assertEquals(
+      result.errors[1],
+      'Condition for feature "ffi" can only test target(...), not feature("fs")',
+    );
+  });
+
+  it("should report target defaults naming unknown features", () => {
+    const manifest = parseManifest({
+      features: { default: ["fs"], fs: [] },
+      ftFlags: { targetDefaults: { node: ["fs", "nope"] } },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.diagnostics.map((d) => d.rule), ["invalid-target-config"]);
+    assertEquals(result.diagnostics[0].reference, "nope");
+  });
+});
+
+describe("Profiles", () => {
+  it("should accept profiles that extend each other", () => {
+    const manifest = parseManifest({
+      features: { default: ["fs"], fs: [], metrics: [] },
+      ftFlags: {
+        profiles: {
+          minimal: { noDefaultFeatures: true },
+          ci: { extends: "minimal", features: ["metrics"] },
+        },
+      },
+    });
+
+    assertEquals(validateManifest(manifest).diagnostics, []);
+  });
+
+  it("should report unknown features and profiles", () => {
+    const manifest = parseManifest({
+      features: { default: ["fs"], fs: [] },
+      ftFlags: {
+        profiles: {
+          ci: { extends: "nope", features: ["fs", "metrics"] },
+        },
+      },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.diagnostics.map((d) => d.code), ["FT020", "FT020"]);
+    assertEquals(result.errors, [
+      'Profile "ci" references unknown feature "metrics"',
+      'Profile "ci" extends unknown profile "nope"',
+    ]);
+    assertEquals(result.diagnostics.map((d) => d.reference), ["metrics", "nope"]);
+  });
+
+  it("should report profiles that extend each other in a cycle", () => {
+    const manifest = parseManifest({
+      features: { default: [] },
+      ftFlags: { profiles: { a: { extends: "b" }, b: { extends: "a" } } },
+    });
+
+    const result = validateManifest(manifest);
+    assertEquals(result.errors, [
+      "Profiles extend each other in a cycle: a -> b -> a",
+      "Profiles extend each other in a cycle: b -> a -> b",
+    ]);
+  });
+});
+
+// =============================================================================
+// Standalone Manifest Tests
+// =============================================================================
+
+describe("Standalone manifests", () => {
+  let tempDir: string;
+
+  const write = (path: string, content: unknown): Promise<void> =>
+    Deno.writeTextFile(
+      `${tempDir}/${path}`,
+      typeof content === "string" ? content : JSON.stringify(content),
+    );
+
+  beforeAll(async () => {
+    tempDir = await Deno.makeTempDir({ prefix: "ft-flags-standalone-" });
+    await Promise.all(
+      ["json", "toml", "broken-sibling", "comments"].map((dir) => Deno.mkdir(`${tempDir}/${dir}`)),
+    );
+    await Promise.all([
+      write("json/package.json", {
+        name: "@test/standalone",
+        optionalDependencies: { ky: "^1.0.0" },
+        features: { default: [] },
+      }),
+      write("json/features.json", { features: { default: ["http"], http: ["dep:ky"] } }),
+      write(
+        "toml/ft-flags.toml",
+        [
+          'name = "@test/toml"',
+          "",
+          "[features]",
+          'default = ["std"]',
+          'std = ["fs"]',
+          "fs = []",
+          "",
+          "[metadata.features.fs]",
+          'description = "File system access"',
+        ].join("\n"),
+      ),
+      write("toml/deno.json", { name: "@test/ignored" }),
+      write("broken-sibling/features.json", { features: { default: [] } }),
+      write("broken-sibling/package.json", "{ not json"),
+      write("comments/features.json", '{\n  // no comments here\n  "features": {}\n}'),
+    ]);
+  });
+
+  afterAll(async () => {
+    if (tempDir) {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+
+  it("should prefer features.json and take the name and dependencies from package.json", async () => {
+    const manifest = await loadManifestFromDirectory(`${tempDir}/json`);
+
+    assertEquals(manifest?.source, {
+      type: "features.json",
+      path: `${tempDir}/json/features.json`,
+    });
+    assertEquals(manifest?.name, "@test/standalone");
+    assertEquals(manifest?.dependencies?.optionalDependencies, { ky: "^1.0.0" });
+    assertEquals(manifest?.features.get("http"), ["dep:ky"]);
+  });
+
+  it("should warn that package.json features are ignored", async () => {
+    const manifest = await loadManifestFromDirectory(`${tempDir}/json`);
+    assertEquals(manifest?.shadowedSources, [
+      { type: "package.json", path: `${tempDir}/json/package.json` },
+    ]);
+
+    const result = validateManifest(manifest!, { dependencies: manifest!.dependencies });
+    assertEquals(result.valid, true);
+    assertEquals(result.diagnostics.map((d) => d.code), [DIAGNOSTIC_CODES["multiple-manifests"]]);
+    assertEquals(
+      result.diagnostics[0].message,
+      `Features are also defined in ${tempDir}/json/package.json, which is ignored because ${tempDir}/json/features.json takes precedence`,
+    );
+    assertEquals(result.diagnostics[0].location, {
+      path: `${tempDir}/json/features.json`,
+      line: 1,
+      column: 2,
+    });
+  });
+
+  it("should load ft-flags.toml with metadata", async () => {
+    const manifest = await loadManifestFromDirectory(`${tempDir}/toml`);
+
+    assertEquals(manifest?.source?.type, "ft-flags.toml");
+    assertEquals(manifest?.name, "@test/toml");
+    assertEquals(manifest?.features.get("std"), ["fs"]);
+    assertEquals(manifest?.metadata.get("fs")?.description, "File system access");
+    assertEquals(manifest?.shadowedSources, undefined);
+  });
+
+  it("should ignore a broken config file that is not used", async () => {
+    const manifest = await loadManifestFromDirectory(`${tempDir}/broken-sibling`);
+    assertEquals(manifest?.source?.type, "features.json");
+  });
+
+  it("should not allow comments in features.json", async () => {
+    await assertRejects(
+      () => loadManifestFromDirectory(`${tempDir}/comments`),
+      ConfigParseError,
+      `at ${tempDir}/comments/features.json:2:3`,
+    );
+  });
+});
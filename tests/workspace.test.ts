@@ -0,0 +1,379 @@
+/**
+ * Tests for cross-package feature resolution
+ *
+ * @module
+ */
+
+import { assertEquals, assertExists, assertRejects, assertThrows } from "@std/assert";
+import { afterAll, beforeAll, describe, it } from "@std/testing/bdd";
+
+import { type FeatureManifest, parseManifest } from "../src/manifest.ts";
+import { ConfigLoadError } from "../src/types.ts";
+import {
+  discoverWorkspaceMembers,
+  loadDependencyManifests,
+  loadWorkspaceManifests,
+  resolveWorkspaceFeatures,
+} from "../src/workspace.ts";
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+function createTestWorkspace(): Map<string, FeatureManifest> {
+  return new Map([
+    [
+      "@my/app",
+      parseManifest({
+        name: "@my/app",
+        features: {
+          default: ["serialization"],
+          serialization: ["serde:derive"],
+          networking: ["@my/http:json", "serde:std"],
+          tracing: ["dep:opentelemetry"],
+        },
+      }),
+    ],
+    [
+      "@my/http",
+      parseManifest({
+        name: "@my/http",
+        features: {
+          default: [],
+          json: ["serde:std"],
+        },
+      }),
+    ],
+    [
+      "serde",
+      parseManifest({
+        name: "serde",
+        features: {
+          default: ["std"],
+          std: [],
+          derive: [],
+          alloc: [],
+        },
+      }),
+    ],
+  ]);
+}
+
+// =============================================================================
+// resolveWorkspaceFeatures Tests
+// =============================================================================
+
+describe("resolveWorkspaceFeatures", () => {
+  it("should enable referenced features in other packages", () => {
+    const result = resolveWorkspaceFeatures("@my/app", createTestWorkspace());
+
+    const serde = result.packages.get("serde");
+    assertExists(serde);
+    assertEquals(serde.enabled.has("derive"), true);
+    assertEquals(serde.enabled.has("alloc"), false);
+  });
+
+  it("should not include packages that are never reached", () => {
+    const result = resolveWorkspaceFeatures("@my/app", createTestWorkspace());
+
+    assertEquals(result.packages.has("@my/http"), false);
+  });
+
+  it("should unify requests from several packages", () => {
+    const result = resolveWorkspaceFeatures("@my/app", createTestWorkspace(), {
+      features: ["networking"],
+    });
+
+    const http = result.packages.get("@my/http");
+    assertExists(http);
+    assertEquals(http.enabled.has("json"), true);
+
+    const serde = result.packages.get("serde");
+    assertExists(serde);
+    assertEquals(serde.enabledBy.get("std"), ["default", "@my/app:networking", "@my/http:json"]);
+    assertEquals(serde.enabledBy.get("derive"), ["@my/app:serialization"]);
+  });
+
+  it("should apply the feature selection to the root only", () => {
+    const result = resolveWorkspaceFeatures("@my/app", createTestWorkspace(), {
+      allFeatures: true,
+    });
+
+    const serde = result.packages.get("serde");
+    assertExists(serde);
+    assertEquals(serde.enabled.has("alloc"), false);
+  });
+
+  it("should apply the root's profile", () => {
+    const manifests = createTestWorkspace();
+    manifests.set(
+      "@my/app",
+      parseManifest({
+        name: "@my/app",
+        features: { default: [], networking: ["@my/http:json"] },
+        ftFlags: { profiles: { online: { features: ["networking"] } } },
+      }),
+    );
+
+    const result = resolveWorkspaceFeatures("@my/app", manifests, { profile: "online" });
+
+    assertEquals(result.packages.get("@my/app")?.enabledBy.get("networking"), ["<profile:online>"]);
+    assertEquals(result.packages.get("@my/http")?.enabled.has("json"), true);
+  });
+
+  it("should resolve every package for the target", () => {
+    const manifests = new Map([
+      [
+        "app",
+        parseManifest({
+          features: { default: ["lib:json"] },
+        }),
+      ],
+      [
+        "lib",
+        parseManifest({
+          features: { default: [], json: ["ffi"], ffi: [] },
+          metadata: { ffi: { when: 'target("deno")' } },
+        }),
+      ],
+    ]);
+
+    const result = resolveWorkspaceFeatures("app", manifests, { target: "browser" });
+
+    assertEquals(result.packages.get("lib")?.enabled.has("json"), true);
+    assertEquals(result.packages.get("lib")?.enabled.has("ffi"), false);
+    assertEquals(result.packages.get("lib")?.target, "browser");
+  });
+
+  it("should skip dependency defaults when dependencyDefaultFeatures is false", () => {
+    const result = resolveWorkspaceFeatures("@my/app", createTestWorkspace(), {
+      dependencyDefaultFeatures: false,
+    });
+
+    const serde = result.packages.get("serde");
+    assertExists(serde);
+    assertEquals(serde.enabled.has("default"), false);
+    assertEquals(serde.enabled.has("std"), false);
+    assertEquals(serde.enabled.has("derive"), true);
+  });
+
+  it("should report references to missing packages", () => {
+    const manifests = createTestWorkspace();
+    manifests.delete("serde");
+
+    const result = resolveWorkspaceFeatures("@my/app", manifests);
+    assertEquals(result.unresolved, [{
+      fromPackage: "@my/app",
+      fromFeature: "serialization",
+      packageName: "serde",
+      featureName: "derive",
+      reason: "missing-package",
+    }]);
+  });
+
+  it("should report references to unknown features", () => {
+    const manifests = new Map([
+      ["app", parseManifest({ features: { default: ["lib:nope"] } })],
+      ["lib", parseManifest({ features: { default: [] } })],
+    ]);
+
+    const result = resolveWorkspaceFeatures("app", manifests);
+    assertEquals(result.unresolved.length, 1);
+    assertEquals(result.unresolved[0].reason, "unknown-feature");
+    assertEquals(result.unresolved[0].featureName, "nope");
+    assertEquals(result.unresolved[0].fromFeature, "default");
+  });
+
+  it("should handle cycles between packages", () => {
+    const manifests = new Map([
+      ["a", parseManifest({ features: { default: ["b:one"], two: [] } })],
+      ["b", parseManifest({ features: { one: ["a:two"] } })],
+    ]);
+
+    const result = resolveWorkspaceFeatures("a", manifests);
+    assertEquals(result.packages.get("a")?.enabled.has("two"), true);
+    assertEquals(result.packages.get("a")?.enabledBy.get("two"), ["b:one"]);
+    assertEquals(result.packages.get("b")?.enabled.has("one"), true);
+  });
+
+  it("should throw when the root has no manifest", () => {
+    assertThrows(() => resolveWorkspaceFeatures("missing", new Map()), Error, "missing");
+  });
+});
+
+// =============================================================================
+// loadDependencyManifests Tests
+// =============================================================================
+
+describe("loadDependencyManifests", () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await Deno.makeTempDir({ prefix: "ft-flags-workspace-" });
+
+    const write = async (path: string, json: unknown): Promise<void> => {
+      const dir = path.slice(0, path.lastIndexOf("/"));
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(path, JSON.stringify(json));
+    };
+
+    await Promise.all([
+      write(`${tempDir}/app/package.json`, {
+        name: "app",
+        features: { default: ["@scope/lib:fast"] },
+      }),
+      write(`${tempDir}/app/node_modules/@scope/lib/package.json`, {
+        name: "@scope/lib",
+        features: { fast: ["simd:native"] },
+      }),
+      // Hoisted to a parent node_modules
+      write(`${tempDir}/node_modules/simd/package.json`, {
+        name: "simd",
+        features: { native: [] },
+      }),
+    ]);
+  });
+
+  afterAll(async () => {
+    if (tempDir) {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+
+  it("should load transitively referenced manifests from node_modules", async () => {
+    const root = parseManifest(
+      { name: "app", features: { default: ["@scope/lib:fast"] } },
+      { type: "package.json", path: `${tempDir}/app/package.json` },
+    );
+
+    const manifests = await loadDependencyManifests(root);
+    assertEquals([...manifests.keys()].sort(), ["@scope/lib", "app", "simd"]);
+
+    const result = resolveWorkspaceFeatures("app", manifests);
+    assertEquals(result.packages.get("simd")?.enabled.has("native"), true);
+    assertEquals(result.unresolved.length, 0);
+  });
+});
+
+// =============================================================================
+// Workspace Discovery Tests
+// =============================================================================
+
+describe("loadWorkspaceManifests", () => {
+  let tempDir: string;
+
+  const write = async (path: string, content: unknown): Promise<void> => {
+    const dir = path.slice(0, path.lastIndexOf("/"));
+    await Deno.mkdir(dir, { recursive: true });
+    await Deno.writeTextFile(
+      path,
+      typeof content === "string" ? content : JSON.stringify(content),
+    );
+  };
+
+  beforeAll(async () => {
+    tempDir = await Deno.makeTempDir({ prefix: "ft-flags-discovery-" });
+
+    await Promise.all([
+      // Deno workspace with explicit members and a features config at the root
+      write(`${tempDir}/deno/deno.json`, {
+        name: "@my/root",
+        workspace: ["./packages/core", "./packages/cli", "./docs"],
+        features: { default: [] },
+      }),
+      write(`${tempDir}/deno/packages/core/deno.json`, {
+        name: "@my/core",
+        features: { default: ["std"], std: [] },
+      }),
+      write(`${tempDir}/deno/packages/cli/deno.json`, {
+        name: "@my/cli",
+        features: { default: ["@my/core:std"] },
+      }),
+      write(`${tempDir}/deno/docs/deno.json`, { name: "@my/docs" }),
+
+      // npm workspace with globs and an exclusion
+      write(`${tempDir}/npm/package.json`, {
+        name: "monorepo",
+        private: true,
+        workspaces: ["packages/*", "tools/**", "!packages/internal"],
+      }),
+      write(`${tempDir}/npm/packages/a/package.json`, {
+        name: "a",
+        features: { default: [] },
+      }),
+      write(`${tempDir}/npm/packages/internal/package.json`, {
+        name: "internal",
+        features: { default: [] },
+      }),
+      write(`${tempDir}/npm/tools/build/lint/package.json`, {
+        features: { default: [] },
+      }),
+
+      // pnpm workspace
+      write(`${tempDir}/pnpm/package.json`, { name: "pnpm-root" }),
+      write(
+        `${tempDir}/pnpm/pnpm-workspace.yaml`,
+        "packages:\n  - 'libs/*' # libraries\n\ncatalog:\n  - ignored\n",
+      ),
+      write(`${tempDir}/pnpm/libs/x/package.json`, { name: "x", features: { default: [] } }),
+
+      // Two members with the same name
+      write(`${tempDir}/dupes/package.json`, { workspaces: ["*"] }),
+      write(`${tempDir}/dupes/one/package.json`, { name: "same", features: { default: [] } }),
+      write(`${tempDir}/dupes/two/package.json`, { name: "same", features: { default: [] } }),
+
+      write(`${tempDir}/plain/deno.json`, { features: { default: [] } }),
+    ]);
+  });
+
+  afterAll(async () => {
+    if (tempDir) {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+
+  it("should load the members of a Deno workspace", async () => {
+    const manifests = await loadWorkspaceManifests(`${tempDir}/deno`);
+    assertExists(manifests);
+
+    // Members without a features config are left out
+    assertEquals([...manifests.keys()], ["@my/root", "@my/cli", "@my/core"]);
+    assertEquals(
+      manifests.get("@my/core")?.source?.path,
+      `${tempDir}/deno/packages/core/deno.json`,
+    );
+
+    const result = resolveWorkspaceFeatures("@my/cli", manifests);
+    assertEquals(result.packages.get("@my/core")?.enabled.has("std"), true);
+  });
+
+  it("should expand npm workspace globs and exclusions", async () => {
+    assertEquals(await discoverWorkspaceMembers(`${tempDir}/npm`), [
+      `${tempDir}/npm/packages/a`,
+      `${tempDir}/npm/tools`,
+      `${tempDir}/npm/tools/build`,
+      `${tempDir}/npm/tools/build/lint`,
+    ]);
+
+    // Unnamed members are keyed by their directory
+    const manifests = await loadWorkspaceManifests(`${tempDir}/npm`);
+    assertEquals([...(manifests?.keys() ?? [])], ["a", "tools/build/lint"]);
+  });
+
+  it("should read pnpm-workspace.yaml", async () => {
+    const manifests = await loadWorkspaceManifests(`${tempDir}/pnpm`);
+    assertEquals([...(manifests?.keys() ?? [])], ["x"]);
+  });
+
+  it("should return null outside a workspace root", async () => {
+    assertEquals(await loadWorkspaceManifests(`${tempDir}/plain`), null);
+  });
+
+  it("should reject members with the same name", async () => {
+    await assertRejects(
+      () => loadWorkspaceManifests(`${tempDir}/dupes`),
+      ConfigLoadError,
+      'are both named "same"',
+    );
+  });
+});